@@ -0,0 +1,47 @@
+// scripts/parsheet.ts
+//
+// Exact base-game PAR sheet for a SlotConfig.
+//   npm run parsheet -- [--config game.json] [--format json|csv|html] [--out file]
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import type { SlotConfig } from "../src/types";
+import { DEFAULT_CONFIG } from "../src/slotmachine";
+import { loadConfigFromJson } from "../src/config";
+import {
+  computeParSheet,
+  parSheetToCsv,
+  parSheetToHtml,
+} from "../src/parsheet";
+
+const { values } = parseArgs({
+  options: {
+    config: { type: "string" },
+    format: { type: "string", default: "json" },
+    out: { type: "string" },
+  },
+});
+
+const config: SlotConfig = values.config
+  ? loadConfigFromJson(readFileSync(values.config, "utf8"))
+  : DEFAULT_CONFIG;
+const sheet = computeParSheet(config);
+const title = `PAR sheet — ${values.config ?? "default config"}`;
+
+let output: string;
+switch (values.format) {
+  case "json":
+    output = JSON.stringify(sheet, null, 2) + "\n";
+    break;
+  case "csv":
+    output = parSheetToCsv(sheet);
+    break;
+  case "html":
+    output = parSheetToHtml(sheet, title);
+    break;
+  default:
+    throw new Error(`Unknown --format "${values.format}" (json | csv | html)`);
+}
+
+if (values.out) writeFileSync(values.out, output);
+else process.stdout.write(output);
@@ -0,0 +1,195 @@
+// scripts/simulate.ts
+//
+// Headless RTP / volatility simulator.
+//   npm run simulate -- --spins 1000000 --seed 42 --threads 4 [--bet 100] [--config game.json] [--ante] [--json]
+//   npm run simulate -- --modes --spins 20000   (cost and expected return of spin / ante / bonus buys)
+
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  Worker,
+  isMainThread,
+  parentPort,
+  workerData,
+} from "node:worker_threads";
+import type { SlotConfig } from "../src/types";
+import { DEFAULT_CONFIG } from "../src/slotmachine";
+import { loadConfigFromJson } from "../src/config";
+import {
+  simulate,
+  mergeStats,
+  summarize,
+  estimateModes,
+  type ModeEstimate,
+  type SimulationOptions,
+  type SimulationReport,
+  type SimulationStats,
+} from "../src/simulator";
+
+interface WorkerJob {
+  config: SlotConfig;
+  options: SimulationOptions;
+}
+
+if (isMainThread) {
+  await main();
+} else {
+  const job = workerData as WorkerJob;
+  parentPort!.postMessage(simulate(job.config, job.options));
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      spins: { type: "string", default: "1000000" },
+      seed: { type: "string", default: "1" },
+      threads: { type: "string", default: "1" },
+      bet: { type: "string", default: "100" },
+      config: { type: "string" },
+      ante: { type: "boolean", default: false },
+      modes: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const spins = positiveInt(values.spins, "spins");
+  const seed = Number(values.seed) >>> 0;
+  const threads = Math.min(positiveInt(values.threads, "threads"), spins);
+  const betCents = positiveInt(values.bet, "bet");
+  const config: SlotConfig = values.config
+    ? loadConfigFromJson(readFileSync(values.config, "utf8"))
+    : DEFAULT_CONFIG;
+
+  if (values.modes) {
+    const estimates = estimateModes(config, { spins, seed, betCents });
+    if (values.json) console.log(JSON.stringify(estimates, null, 2));
+    else printModes(estimates, spins);
+    return;
+  }
+
+  const started = Date.now();
+  const jobs = splitSpins(spins, threads).map(
+    (n, i): WorkerJob => ({
+      config,
+      options: {
+        spins: n,
+        seed: threadSeed(seed, i),
+        betCents,
+        ante: values.ante,
+      },
+    })
+  );
+
+  const parts =
+    threads === 1
+      ? [simulate(jobs[0].config, jobs[0].options)]
+      : await Promise.all(jobs.map(runWorker));
+  const report = summarize(parts.reduce(mergeStats));
+
+  if (values.json) {
+    console.log(
+      JSON.stringify(
+        { seed, threads, config: values.config ?? null, ...report },
+        null,
+        2
+      )
+    );
+  } else {
+    printReport(report, seed, threads, Date.now() - started);
+  }
+}
+
+/** Workers don't inherit tsx's loader hooks, so register them before importing this file. */
+function runWorker(job: WorkerJob): Promise<SimulationStats> {
+  const bootstrap = `import(${JSON.stringify(
+    import.meta.resolve("tsx/esm/api")
+  )})
+    .then((tsx) => tsx.register())
+    .then(() => import(${JSON.stringify(import.meta.url)}));`;
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(bootstrap, { eval: true, workerData: job });
+    worker.once("message", (stats: SimulationStats) => resolve(stats));
+    worker.once("error", reject);
+    worker.once("exit", (code) => {
+      if (code !== 0) reject(new Error(`Worker exited with code ${code}`));
+    });
+  });
+}
+
+/** Spread spins as evenly as possible; the first threads take the remainder. */
+function splitSpins(spins: number, threads: number): number[] {
+  const base = Math.floor(spins / threads);
+  return Array.from({ length: threads }, (_, i) =>
+    i < spins % threads ? base + 1 : base
+  );
+}
+
+/** Independent, reproducible stream per thread derived from the run seed. */
+function threadSeed(seed: number, index: number): number {
+  return (seed + Math.imul(index, 0x9e3779b9)) >>> 0;
+}
+
+function positiveInt(raw: string | undefined, name: string): number {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n <= 0)
+    throw new Error(`--${name} must be a positive integer`);
+  return n;
+}
+
+function pct(x: number): string {
+  return `${(x * 100).toFixed(3)}%`;
+}
+
+function oneIn(x: number): string {
+  return x > 0 ? `1 in ${(1 / x).toFixed(1)}` : "never";
+}
+
+function printReport(
+  r: SimulationReport,
+  seed: number,
+  threads: number,
+  elapsedMs: number
+): void {
+  const lines = [
+    `Spins:            ${r.spins.toLocaleString()} @ ${
+      r.betCents
+    }c (seed ${seed}, ${threads} thread(s), ${(elapsedMs / 1000).toFixed(1)}s)`,
+    `RTP:              ${pct(r.rtp)}  (base ${pct(r.baseRtp)}, bonus ${pct(
+      r.bonusRtp
+    )}, jackpots ${pct(r.jackpotRtp)})`,
+    `Hit frequency:    ${pct(r.hitFrequency)}`,
+    `FS trigger:       ${oneIn(r.triggerRate.any)}  (${
+      Object.entries(r.triggerRate.byCount)
+        .map(([n, rate]) => `${n}: ${oneIn(rate)}`)
+        .join(", ") || "none"
+    })`,
+    `Avg bonus:        ${r.avgBonusSpins.toFixed(2)} spins, ${(
+      r.avgBonusWinCents / r.betCents
+    ).toFixed(2)}x bet`,
+    `Max win:          ${r.maxWinCents}c (${r.maxWinX.toFixed(1)}x bet)`,
+    ``,
+    `Round win histogram (x bet):`,
+    ...r.histogram.map(
+      (b) =>
+        `  ${b.label.padEnd(12)} ${String(b.count).padStart(12)}  ${pct(
+          b.share
+        )}`
+    ),
+  ];
+  console.log(lines.join("\n"));
+}
+
+function printModes(estimates: ModeEstimate[], rounds: number): void {
+  console.log(`Mode estimates (${rounds.toLocaleString()} rounds each):`);
+  for (const e of estimates) {
+    const label =
+      e.mode.type === "buy" ? `buy ${e.mode.spins} FS` : e.mode.type;
+    console.log(
+      `  ${label.padEnd(12)} cost ${String(e.costCents).padStart(
+        8
+      )}c  EV ${e.expectedReturnCents.toFixed(1).padStart(12)}c  RTP ${pct(
+        e.rtp
+      )}`
+    );
+  }
+}
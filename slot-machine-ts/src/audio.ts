@@ -0,0 +1,289 @@
+// src/audio.ts
+//
+// Synthesized sound. Every effect is built from oscillators and noise through
+// Web Audio, so nothing is downloaded. Effects and music have their own gain
+// into a master gain. Browsers only allow audio after a user gesture, so the
+// AudioContext is created in unlock(); until then every sound is skipped.
+
+/** Volumes from 0 to 1. */
+export interface SoundSettings {
+  master: number;
+  music: number; // bonus start and end music
+  effects: number; // reels, wins, scatters, wilds
+  muted: boolean;
+}
+
+export const DEFAULT_SOUND: SoundSettings = {
+  master: 0.8,
+  music: 0.6,
+  effects: 0.8,
+  muted: false,
+};
+
+/** Frequency of a note `semitones` away from C5. */
+function note(semitones: number): number {
+  return 523.25 * 2 ** (semitones / 12);
+}
+
+/** C major arpeggio upwards from C5: the win jingle's notes. */
+const ARPEGGIO = [0, 4, 7, 12, 16, 19, 24, 28];
+
+interface ToneOptions {
+  type?: OscillatorType;
+  gain?: number; // envelope peak
+  endFreq?: number; // glide to this frequency over the tone
+}
+
+export class SoundEngine {
+  private settings: SoundSettings;
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private music: GainNode | null = null;
+  private effects: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private spinLoop: AudioBufferSourceNode | null = null;
+  private lastPlayed = new Map<string, number>(); // sound → context time
+
+  constructor(settings: SoundSettings = DEFAULT_SOUND) {
+    this.settings = { ...settings };
+  }
+
+  /** Start (or resume) audio; call from a click or key press. */
+  unlock(): void {
+    if (this.ctx) {
+      if (this.ctx.state === "suspended") void this.ctx.resume();
+      return;
+    }
+    const ctx = new AudioContext();
+    this.ctx = ctx;
+    this.master = ctx.createGain();
+    this.master.connect(ctx.destination);
+    this.music = ctx.createGain();
+    this.music.connect(this.master);
+    this.effects = ctx.createGain();
+    this.effects.connect(this.master);
+
+    // one second of white noise for clicks and the spin loop
+    this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = this.noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    this.applyVolumes();
+  }
+
+  getSettings(): SoundSettings {
+    return { ...this.settings };
+  }
+
+  setSettings(settings: SoundSettings): void {
+    this.settings = { ...settings };
+    this.applyVolumes();
+  }
+
+  /** Looping reel whirr while the columns spin. */
+  spinStart(): void {
+    const bus = this.bus("effects");
+    if (!bus || this.spinLoop) return;
+    const ctx = this.ctx!;
+    // 90 ms of silence with a noise tick at the start, looped: ~11 ticks a second
+    const buffer = ctx.createBuffer(
+      1,
+      Math.round(ctx.sampleRate * 0.09),
+      ctx.sampleRate
+    );
+    const data = buffer.getChannelData(0);
+    const tick = Math.round(ctx.sampleRate * 0.012);
+    const noise = this.noise!.getChannelData(0);
+    for (let i = 0; i < tick; i++) data[i] = noise[i] * (1 - i / tick);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    const filter = ctx.createBiquadFilter();
+    filter.type = "bandpass";
+    filter.frequency.value = 1800;
+    const gain = ctx.createGain();
+    gain.gain.value = 0.35;
+    source.connect(filter).connect(gain).connect(bus);
+    source.start();
+    this.spinLoop = source;
+  }
+
+  spinStop(): void {
+    this.spinLoop?.stop();
+    this.spinLoop = null;
+  }
+
+  /** A column settling: a short thump, a little higher for each reel to the right. */
+  reelStop(col: number): void {
+    const bus = this.bus("effects");
+    if (!bus) return;
+    const at = this.ctx!.currentTime;
+    const freq = 150 * 2 ** (col / 12);
+    this.tone(bus, freq, at, 0.09, {
+      type: "triangle",
+      gain: 0.5,
+      endFreq: freq / 2,
+    });
+    this.noiseBurst(bus, at, 0.03, 3000, 0.2);
+  }
+
+  /** Win jingle: more notes (and louder) for bigger wins; `brief` keeps it to three. */
+  win(winX: number, brief = false): void {
+    const bus = this.bus("effects");
+    if (!bus || winX <= 0) return;
+    const count =
+      winX < 2 ? 2 : winX < 5 ? 3 : winX < 15 ? 4 : winX < 50 ? 6 : 8;
+    const notes = ARPEGGIO.slice(0, brief ? Math.min(count, 3) : count);
+    const gain = Math.min(0.35, 0.15 + count * 0.025);
+    const at = this.ctx!.currentTime;
+    notes.forEach((n, i) => {
+      const last = i === notes.length - 1;
+      this.tone(bus, note(n), at + i * 0.09, last ? 0.5 : 0.14, {
+        type: "square",
+        gain: gain * 0.5,
+      });
+      this.tone(bus, note(n - 12), at + i * 0.09, last ? 0.5 : 0.14, {
+        type: "triangle",
+        gain,
+      });
+    });
+  }
+
+  /** A scatter landing; each further scatter in the spin rings higher. */
+  scatter(nth: number): void {
+    const bus = this.bus("effects");
+    if (!bus) return;
+    const at = this.ctx!.currentTime;
+    const freq = note(7 + 2 * nth);
+    // bell: the fundamental plus an inharmonic partial
+    this.tone(bus, freq, at, 0.7, { gain: 0.3 });
+    this.tone(bus, freq * 2.76, at, 0.35, { gain: 0.12 });
+  }
+
+  /** A new wild appearing. */
+  wildPop(): void {
+    const bus = this.bus("effects");
+    if (!bus || this.repeated("pop")) return;
+    this.tone(bus, 400, this.ctx!.currentTime, 0.14, {
+      gain: 0.3,
+      endFreq: 1200,
+    });
+  }
+
+  /** A wild's multiplier growing. */
+  wildBump(): void {
+    const bus = this.bus("effects");
+    if (!bus || this.repeated("bump")) return;
+    const at = this.ctx!.currentTime;
+    this.tone(bus, 660, at, 0.06, { type: "square", gain: 0.12 });
+    this.tone(bus, 880, at + 0.07, 0.08, { type: "square", gain: 0.12 });
+  }
+
+  /** Fanfare as free spins begin; `brief` plays only the rising run. */
+  bonusStart(brief = false): void {
+    const bus = this.bus("music");
+    if (!bus) return;
+    const at = this.ctx!.currentTime;
+    const run = [0, 4, 7, 12];
+    run.forEach((n, i) =>
+      this.tone(bus, note(n), at + i * 0.12, 0.16, {
+        type: "triangle",
+        gain: 0.3,
+      })
+    );
+    if (brief) return;
+    for (const n of [12, 16, 19])
+      this.tone(bus, note(n), at + run.length * 0.12, 1.2, {
+        type: "triangle",
+        gain: 0.2,
+      });
+  }
+
+  /** Closing cadence after the last free spin. */
+  bonusEnd(brief = false): void {
+    const bus = this.bus("music");
+    if (!bus) return;
+    const at = this.ctx!.currentTime;
+    const cadence = brief ? [7, 12] : [7, 5, 4, 2, 12];
+    cadence.forEach((n, i) =>
+      this.tone(
+        bus,
+        note(n),
+        at + i * 0.16,
+        i === cadence.length - 1 ? 1 : 0.2,
+        {
+          type: "triangle",
+          gain: 0.3,
+        }
+      )
+    );
+  }
+
+  /** The bus to schedule on, or null while locked or muted. */
+  private bus(kind: "music" | "effects"): GainNode | null {
+    if (!this.ctx || this.settings.muted) return null;
+    return kind === "music" ? this.music : this.effects;
+  }
+
+  /** Several wilds change at once: play their sound once, not stacked. */
+  private repeated(key: string): boolean {
+    const now = this.ctx!.currentTime;
+    const last = this.lastPlayed.get(key);
+    this.lastPlayed.set(key, now);
+    return last !== undefined && now - last < 0.05;
+  }
+
+  private applyVolumes(): void {
+    if (!this.ctx) return;
+    const at = this.ctx.currentTime;
+    const s = this.settings;
+    // short glide so slider moves don't click
+    this.master!.gain.setTargetAtTime(s.muted ? 0 : s.master, at, 0.02);
+    this.music!.gain.setTargetAtTime(s.music, at, 0.02);
+    this.effects!.gain.setTargetAtTime(s.effects, at, 0.02);
+    if (s.muted) this.spinStop();
+  }
+
+  private tone(
+    bus: GainNode,
+    freq: number,
+    at: number,
+    dur: number,
+    opts: ToneOptions = {}
+  ): void {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    osc.type = opts.type ?? "sine";
+    osc.frequency.setValueAtTime(freq, at);
+    if (opts.endFreq)
+      osc.frequency.exponentialRampToValueAtTime(opts.endFreq, at + dur);
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0.0001, at);
+    env.gain.exponentialRampToValueAtTime(opts.gain ?? 0.3, at + 0.01);
+    env.gain.exponentialRampToValueAtTime(0.0001, at + dur);
+    osc.connect(env).connect(bus);
+    osc.start(at);
+    osc.stop(at + dur + 0.02);
+  }
+
+  private noiseBurst(
+    bus: GainNode,
+    at: number,
+    dur: number,
+    cutoff: number,
+    gain: number
+  ): void {
+    const ctx = this.ctx!;
+    const source = ctx.createBufferSource();
+    source.buffer = this.noise;
+    const filter = ctx.createBiquadFilter();
+    filter.type = "highpass";
+    filter.frequency.value = cutoff;
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(gain, at);
+    env.gain.exponentialRampToValueAtTime(0.0001, at + dur);
+    source.connect(filter).connect(env).connect(bus);
+    source.start(at);
+    source.stop(at + dur);
+  }
+}
@@ -0,0 +1,117 @@
+// src/autoplay.ts
+//
+// Autoplay bookkeeping: how many rounds are left and whether a stop condition
+// has been met. The UI plays the rounds (bonus included) and asks after each.
+
+/** Player-chosen autoplay limits; amounts in cents, null = not used. */
+export interface AutoplaySettings {
+  rounds: number | null; // null = until stopped
+  lossLimitCents: number | null; // net loss since autoplay started
+  singleWinAboveCents: number | null; // one round (base + bonus) winning more
+  balanceBelowCents: number | null;
+  balanceAboveCents: number | null;
+  stopOnFreeSpins: boolean; // stop after the triggered bonus has played
+}
+
+export const AUTOPLAY_ROUNDS: ReadonlyArray<number | null> = [
+  10,
+  25,
+  50,
+  100,
+  null,
+];
+
+export const DEFAULT_AUTOPLAY: AutoplaySettings = {
+  rounds: 10,
+  lossLimitCents: null,
+  singleWinAboveCents: null,
+  balanceBelowCents: null,
+  balanceAboveCents: null,
+  stopOnFreeSpins: true,
+};
+
+export type AutoplayStop =
+  | "completed"
+  | "stopped"
+  | "lossLimit"
+  | "singleWin"
+  | "balanceBelow"
+  | "balanceAbove"
+  | "freeSpins"
+  | "error";
+
+/** What one finished round did, as autoplay needs it. */
+export interface AutoplayRound {
+  winCents: number; // base win + bonus total
+  freeSpinsAwarded: number;
+  balanceCents: number; // after the round, bonus credited
+}
+
+export class Autoplay {
+  readonly settings: AutoplaySettings;
+  private startBalanceCents: number;
+  private played = 0;
+  private stopRequested = false;
+
+  constructor(settings: AutoplaySettings, startBalanceCents: number) {
+    if (
+      settings.rounds !== null &&
+      (!Number.isInteger(settings.rounds) || settings.rounds <= 0)
+    )
+      throw new Error("Autoplay rounds must be a positive integer");
+    this.settings = settings;
+    this.startBalanceCents = startBalanceCents;
+  }
+
+  get roundsPlayed(): number {
+    return this.played;
+  }
+
+  /** Rounds left, or null when running until stopped. */
+  get roundsRemaining(): number | null {
+    return this.settings.rounds === null
+      ? null
+      : this.settings.rounds - this.played;
+  }
+
+  /** Ask to stop; the round in progress still finishes. */
+  requestStop(): void {
+    this.stopRequested = true;
+  }
+
+  /** Checked before each round: a reason to stop, or null to play it. */
+  beforeRound(): AutoplayStop | null {
+    if (this.stopRequested) return "stopped";
+    if (this.roundsRemaining !== null && this.roundsRemaining <= 0)
+      return "completed";
+    return null;
+  }
+
+  /** Record a finished round and return the first stop condition it meets, if any. */
+  afterRound(round: AutoplayRound): AutoplayStop | null {
+    this.played++;
+    const s = this.settings;
+    if (
+      s.lossLimitCents !== null &&
+      this.startBalanceCents - round.balanceCents >= s.lossLimitCents
+    )
+      return "lossLimit";
+    if (
+      s.singleWinAboveCents !== null &&
+      round.winCents > s.singleWinAboveCents
+    )
+      return "singleWin";
+    if (
+      s.balanceBelowCents !== null &&
+      round.balanceCents < s.balanceBelowCents
+    )
+      return "balanceBelow";
+    if (
+      s.balanceAboveCents !== null &&
+      round.balanceCents > s.balanceAboveCents
+    )
+      return "balanceAbove";
+    if (s.stopOnFreeSpins && round.freeSpinsAwarded > 0) return "freeSpins";
+    return this.beforeRound();
+  }
+}
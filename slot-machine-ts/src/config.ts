@@ -0,0 +1,496 @@
+// src/config.ts
+
+import type {
+  SlotConfig,
+  SymbolDef,
+  SymbolRole,
+  RunPayout,
+  PayDirection,
+  EvaluationMode,
+} from "./types";
+
+const ROLES: readonly SymbolRole[] = ["regular", "scatter", "wild"];
+const DIRECTIONS: readonly PayDirection[] = ["ltr", "rtl", "both"];
+const EVALUATIONS: readonly EvaluationMode[] = ["lines", "ways"];
+const RUN_LENGTHS = [3, 4, 5] as const;
+
+function isObject(x: unknown): x is Record<string, unknown> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+function isPositiveInt(x: unknown): x is number {
+  return typeof x === "number" && Number.isInteger(x) && x > 0;
+}
+
+function isNonNegative(x: unknown): x is number {
+  return typeof x === "number" && Number.isFinite(x) && x >= 0;
+}
+
+/**
+ * Check a config (typically parsed from JSON) and return every problem found,
+ * one human-readable message each. An empty array means the config is usable.
+ */
+export function validateConfig(raw: unknown): string[] {
+  const issues: string[] = [];
+  if (!isObject(raw)) return ["Config must be an object"];
+
+  if (!isPositiveInt(raw.rows)) issues.push("rows must be a positive integer");
+  if (!isPositiveInt(raw.reels))
+    issues.push("reels must be a positive integer");
+  if (raw.name !== undefined && typeof raw.name !== "string")
+    issues.push("name must be a string");
+
+  const maxScatters = raw.maxScattersPerReel ?? 1;
+  if (
+    typeof maxScatters !== "number" ||
+    !Number.isInteger(maxScatters) ||
+    maxScatters < 0
+  ) {
+    issues.push("maxScattersPerReel must be a non-negative integer");
+  } else if (isPositiveInt(raw.rows) && maxScatters > raw.rows) {
+    issues.push(
+      `maxScattersPerReel (${maxScatters}) cannot exceed rows (${raw.rows})`
+    );
+  }
+
+  if (
+    raw.payDirection !== undefined &&
+    !DIRECTIONS.includes(raw.payDirection as PayDirection)
+  )
+    issues.push(`payDirection must be one of ${DIRECTIONS.join(", ")}`);
+  if (
+    raw.evaluation !== undefined &&
+    !EVALUATIONS.includes(raw.evaluation as EvaluationMode)
+  )
+    issues.push(`evaluation must be one of ${EVALUATIONS.join(", ")}`);
+  if (raw.paylines !== undefined) issues.push(...validatePaylines(raw));
+  if (raw.gamble !== undefined) {
+    const g = raw.gamble;
+    if (!isObject(g)) issues.push("gamble must be an object");
+    else {
+      if (
+        typeof g.maxSteps !== "number" ||
+        !Number.isInteger(g.maxSteps) ||
+        g.maxSteps < 0
+      )
+        issues.push("gamble.maxSteps must be a non-negative integer");
+      if (!isPositiveInt(g.maxStakeCents))
+        issues.push("gamble.maxStakeCents must be a positive integer");
+    }
+  }
+
+  if (raw.ante !== undefined) {
+    const a = raw.ante;
+    if (!isObject(a)) issues.push("ante must be an object");
+    else {
+      if (
+        typeof a.stakeIncrease !== "number" ||
+        !Number.isFinite(a.stakeIncrease) ||
+        a.stakeIncrease <= 0
+      )
+        issues.push("ante.stakeIncrease must be a number > 0");
+      if (
+        typeof a.scatterWeightMultiplier !== "number" ||
+        !Number.isFinite(a.scatterWeightMultiplier) ||
+        a.scatterWeightMultiplier < 1
+      )
+        issues.push("ante.scatterWeightMultiplier must be a number >= 1");
+    }
+  }
+  if (raw.bonusBuy !== undefined)
+    issues.push(...validateBonusBuy(raw.bonusBuy));
+  if (raw.cascade !== undefined) {
+    const c = raw.cascade;
+    if (!isObject(c)) issues.push("cascade must be an object");
+    else {
+      if (
+        !Array.isArray(c.multipliers) ||
+        c.multipliers.length === 0 ||
+        !c.multipliers.every(isPositiveInt)
+      )
+        issues.push(
+          "cascade.multipliers must be a non-empty array of positive integers"
+        );
+      if (c.maxSteps !== undefined && !isPositiveInt(c.maxSteps))
+        issues.push("cascade.maxSteps must be a positive integer");
+    }
+  }
+  if (raw.currency !== undefined)
+    issues.push(...validateCurrency(raw.currency));
+  if (raw.winTiers !== undefined)
+    issues.push(...validateWinTiers(raw.winTiers));
+  if (raw.scatter !== undefined) issues.push(...validateScatter(raw.scatter));
+
+  if (!Array.isArray(raw.symbols) || raw.symbols.length === 0) {
+    issues.push("symbols must be a non-empty array");
+    return issues;
+  }
+
+  const seen = new Set<string>();
+  let totalWeight = 0;
+  let nonScatterWeight = 0;
+  let regularCount = 0;
+
+  raw.symbols.forEach((s: unknown, i: number) => {
+    if (!isObject(s)) {
+      issues.push(`symbols[${i}] must be an object`);
+      return;
+    }
+    const where =
+      typeof s.id === "string" && s.id ? `symbol "${s.id}"` : `symbols[${i}]`;
+
+    if (typeof s.id !== "string" || s.id === "") {
+      issues.push(`${where}: id must be a non-empty string`);
+    } else if (seen.has(s.id)) {
+      issues.push(`${where}: duplicate id`);
+    } else {
+      seen.add(s.id);
+    }
+
+    if (typeof s.emoji !== "string" || (s.emoji === "" && !s.image))
+      issues.push(`${where}: needs an emoji glyph or an image`);
+    if (s.image !== undefined && typeof s.image !== "string")
+      issues.push(`${where}: image must be a URL string`);
+    if (s.name !== undefined && typeof s.name !== "string")
+      issues.push(`${where}: name must be a string`);
+    if (typeof s.color !== "string" || s.color === "")
+      issues.push(`${where}: color is required`);
+
+    const weightOk =
+      typeof s.weight === "number" &&
+      Number.isFinite(s.weight) &&
+      s.weight >= 0;
+    if (!weightOk) issues.push(`${where}: weight must be a number >= 0`);
+
+    if (!ROLES.includes(s.role as SymbolRole)) {
+      issues.push(`${where}: role must be one of ${ROLES.join(", ")}`);
+      return;
+    }
+
+    const weight = weightOk ? (s.weight as number) : 0;
+    totalWeight += weight;
+    if (s.role !== "scatter") nonScatterWeight += weight;
+
+    if (s.role === "regular") {
+      regularCount++;
+      if (!isObject(s.pays)) {
+        issues.push(`${where}: regular symbols need pays for 3, 4 and 5`);
+      } else {
+        for (const n of RUN_LENGTHS) {
+          const p = s.pays[n];
+          if (typeof p !== "number" || !Number.isFinite(p) || p < 0)
+            issues.push(`${where}: pays.${n} must be a number >= 0`);
+        }
+      }
+    } else if (s.pays !== undefined) {
+      issues.push(
+        `${where}: ${s.role} symbols do not take line pays${
+          s.role === "scatter" ? " (scatter pays go in scatter.pays)" : ""
+        }`
+      );
+    }
+  });
+
+  // weights only drive weighted-cell mode; reel strips replace them
+  if (raw.reelStrips === undefined) {
+    if (totalWeight <= 0) issues.push("total symbol weight must be > 0");
+    else if (nonScatterWeight <= 0)
+      issues.push("non-scatter symbols need a total weight > 0");
+  } else {
+    issues.push(...validateReelStrips(raw, seen));
+  }
+  if (regularCount === 0)
+    issues.push("at least one regular (line-paying) symbol is required");
+  if (raw.jackpots !== undefined)
+    issues.push(...validateJackpots(raw.jackpots, seen));
+
+  return issues;
+}
+
+function validatePaylines(raw: Record<string, unknown>): string[] {
+  const issues: string[] = [];
+  if (!Array.isArray(raw.paylines) || raw.paylines.length === 0)
+    return ["paylines must be a non-empty array when given"];
+
+  const rows = isPositiveInt(raw.rows) ? raw.rows : Infinity;
+  const reels = isPositiveInt(raw.reels) ? raw.reels : Infinity;
+  const seen = new Set<string>();
+
+  raw.paylines.forEach((l: unknown, i: number) => {
+    if (!isObject(l)) {
+      issues.push(`paylines[${i}] must be an object`);
+      return;
+    }
+    const where =
+      typeof l.id === "string" && l.id ? `payline "${l.id}"` : `paylines[${i}]`;
+    if (typeof l.id !== "string" || l.id === "")
+      issues.push(`${where}: id must be a non-empty string`);
+    else if (seen.has(l.id)) issues.push(`${where}: duplicate id`);
+    else seen.add(l.id);
+
+    if (!Array.isArray(l.rows) || l.rows.length < 3 || l.rows.length > reels) {
+      issues.push(`${where}: rows must list 3 to ${reels} row indices`);
+      return;
+    }
+    l.rows.forEach((r: unknown, c: number) => {
+      if (typeof r !== "number" || !Number.isInteger(r) || r < 0 || r >= rows)
+        issues.push(`${where}: reel ${c + 1} row must be 0..${rows - 1}`);
+    });
+  });
+  return issues;
+}
+
+function validateReelStrips(
+  raw: Record<string, unknown>,
+  symbolIds: Set<string>
+): string[] {
+  if (!isObject(raw.reelStrips))
+    return ["reelStrips must be an object with a base strip set"];
+  const issues: string[] = [];
+  const reels = isPositiveInt(raw.reels) ? raw.reels : NaN;
+  const rows = isPositiveInt(raw.rows) ? raw.rows : 0;
+
+  const checkSet = (name: "base" | "bonus", set: unknown) => {
+    if (!Array.isArray(set) || set.length !== reels) {
+      issues.push(`reelStrips.${name} must have one strip per reel (${reels})`);
+      return;
+    }
+    set.forEach((strip: unknown, c: number) => {
+      const where = `reelStrips.${name}[${c}]`;
+      if (!Array.isArray(strip) || strip.length < rows) {
+        issues.push(`${where} must list at least ${rows} symbols`);
+        return;
+      }
+      const unknown = strip.filter(
+        (id: unknown) => typeof id !== "string" || !symbolIds.has(id)
+      );
+      if (unknown.length > 0)
+        issues.push(`${where} has unknown symbols: ${unknown.join(", ")}`);
+    });
+  };
+
+  checkSet("base", raw.reelStrips.base);
+  if (raw.reelStrips.bonus !== undefined)
+    checkSet("bonus", raw.reelStrips.bonus);
+  return issues;
+}
+
+function validateBonusBuy(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return ["bonusBuy must be an array"];
+  const issues: string[] = [];
+  const seen = new Set<number>();
+  raw.forEach((o: unknown, i: number) => {
+    if (!isObject(o)) {
+      issues.push(`bonusBuy[${i}] must be an object`);
+      return;
+    }
+    if (!isPositiveInt(o.spins))
+      issues.push(`bonusBuy[${i}]: spins must be a positive integer`);
+    else if (seen.has(o.spins))
+      issues.push(`bonusBuy[${i}]: duplicate offer for ${o.spins} spins`);
+    else seen.add(o.spins);
+    if (
+      typeof o.costX !== "number" ||
+      !Number.isFinite(o.costX) ||
+      o.costX <= 0
+    )
+      issues.push(`bonusBuy[${i}]: costX must be a number > 0`);
+  });
+  return issues;
+}
+
+function validateCurrency(c: unknown): string[] {
+  if (!isObject(c)) return ["currency must be an object"];
+  const issues: string[] = [];
+  if (typeof c.code !== "string" || !/^[A-Z]{3}$/.test(c.code))
+    issues.push("currency.code must be a three-letter ISO 4217 code");
+  else if (!Intl.supportedValuesOf("currency").includes(c.code))
+    issues.push(`currency.code: unknown currency "${c.code}"`);
+  if (
+    typeof c.minorUnits !== "number" ||
+    !Number.isInteger(c.minorUnits) ||
+    c.minorUnits < 0 ||
+    c.minorUnits > 4
+  )
+    issues.push("currency.minorUnits must be an integer from 0 to 4");
+
+  const ladder = c.betLadder;
+  if (
+    !Array.isArray(ladder) ||
+    ladder.length === 0 ||
+    !ladder.every(isPositiveInt) ||
+    ladder.some((b, i) => i > 0 && b <= ladder[i - 1])
+  )
+    issues.push(
+      "currency.betLadder must be a non-empty ascending array of positive integers"
+    );
+  else if (!ladder.includes(c.defaultBetCents as number))
+    issues.push("currency.defaultBetCents must be on the bet ladder");
+  if (
+    typeof c.startingBalanceCents !== "number" ||
+    !Number.isInteger(c.startingBalanceCents) ||
+    c.startingBalanceCents < 0
+  )
+    issues.push("currency.startingBalanceCents must be a non-negative integer");
+  if (!isPositiveInt(c.depositCents))
+    issues.push("currency.depositCents must be a positive integer");
+  if (
+    !Array.isArray(c.denominations) ||
+    c.denominations.length === 0 ||
+    !c.denominations.every(isPositiveInt)
+  )
+    issues.push(
+      "currency.denominations must be a non-empty array of positive integers"
+    );
+  return issues;
+}
+
+function validateWinTiers(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return ["winTiers must be an array"];
+  const issues: string[] = [];
+  let lastX = 0;
+  raw.forEach((t: unknown, i: number) => {
+    if (!isObject(t)) {
+      issues.push(`winTiers[${i}] must be an object`);
+      return;
+    }
+    if (typeof t.name !== "string" || t.name === "")
+      issues.push(`winTiers[${i}]: name is required`);
+    if (typeof t.minX !== "number" || !Number.isFinite(t.minX) || t.minX <= 0)
+      issues.push(`winTiers[${i}]: minX must be a number > 0`);
+    else if (t.minX <= lastX)
+      issues.push(`winTiers[${i}]: minX must be above the previous tier's`);
+    else lastX = t.minX;
+    if (t.countUpMs !== undefined && !isPositiveInt(t.countUpMs))
+      issues.push(`winTiers[${i}]: countUpMs must be a positive integer`);
+  });
+  return issues;
+}
+
+/** Problems with one count → value table; `integers` also requires whole values. */
+function validateScatterTable(
+  raw: unknown,
+  name: string,
+  integers: boolean
+): string[] {
+  if (!isObject(raw)) return [`scatter.${name} must be an object`];
+  const issues: string[] = [];
+  for (const [count, value] of Object.entries(raw)) {
+    if (!/^[1-9]\d*$/.test(count))
+      issues.push(`scatter.${name}: "${count}" is not a scatter count`);
+    if (integers ? !isPositiveInt(value) : !isNonNegative(value))
+      issues.push(
+        `scatter.${name}.${count} must be ${
+          integers ? "a positive integer" : "a number >= 0"
+        }`
+      );
+  }
+  return issues;
+}
+
+function validateScatter(s: unknown): string[] {
+  if (!isObject(s)) return ["scatter must be an object"];
+  const issues: string[] = [];
+  if (s.pays !== undefined)
+    issues.push(...validateScatterTable(s.pays, "pays", false));
+  issues.push(
+    ...validateScatterTable(s.triggers, "triggers", true),
+    ...validateScatterTable(s.retriggers, "retriggers", true)
+  );
+  if (s.maxTotalFreeSpins !== undefined) {
+    if (!isPositiveInt(s.maxTotalFreeSpins))
+      issues.push("scatter.maxTotalFreeSpins must be a positive integer");
+    else if (isObject(s.triggers)) {
+      const most = Math.max(0, ...Object.values(s.triggers).map(Number));
+      if (most > s.maxTotalFreeSpins)
+        issues.push(
+          `scatter.maxTotalFreeSpins (${s.maxTotalFreeSpins}) is below the largest trigger (${most})`
+        );
+    }
+  }
+  if (s.onWilds !== undefined && typeof s.onWilds !== "boolean")
+    issues.push("scatter.onWilds must be true or false");
+  return issues;
+}
+
+function validateJackpots(raw: unknown, symbolIds: Set<string>): string[] {
+  if (!Array.isArray(raw)) return ["jackpots must be an array"];
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  let totalShare = 0;
+
+  raw.forEach((p: unknown, i: number) => {
+    if (!isObject(p)) {
+      issues.push(`jackpots[${i}] must be an object`);
+      return;
+    }
+    const where =
+      typeof p.id === "string" && p.id ? `jackpot "${p.id}"` : `jackpots[${i}]`;
+    if (typeof p.id !== "string" || p.id === "")
+      issues.push(`${where}: id must be a non-empty string`);
+    else if (seen.has(p.id)) issues.push(`${where}: duplicate id`);
+    else seen.add(p.id);
+
+    if (typeof p.name !== "string" || p.name === "")
+      issues.push(`${where}: name is required`);
+    if (!isPositiveInt(p.seedCents))
+      issues.push(`${where}: seedCents must be a positive integer`);
+    if (p.minBetCents !== undefined && !isPositiveInt(p.minBetCents))
+      issues.push(`${where}: minBetCents must be a positive integer`);
+    if (
+      typeof p.contribution !== "number" ||
+      !(p.contribution >= 0 && p.contribution < 1)
+    )
+      issues.push(`${where}: contribution must be a share from 0 to below 1`);
+    else totalShare += p.contribution;
+
+    const t = p.trigger;
+    if (!isObject(t) || (t.type !== "line" && t.type !== "random")) {
+      issues.push(`${where}: trigger.type must be "line" or "random"`);
+    } else if (t.type === "random") {
+      if (typeof t.chance !== "number" || !(t.chance > 0 && t.chance <= 1))
+        issues.push(`${where}: trigger.chance must be in (0, 1]`);
+    } else if (
+      t.symbol !== undefined &&
+      (typeof t.symbol !== "string" || !symbolIds.has(t.symbol))
+    ) {
+      issues.push(`${where}: trigger.symbol must be a symbol id`);
+    }
+  });
+
+  if (totalShare >= 1)
+    issues.push("jackpot contributions must add up to less than the bet");
+  return issues;
+}
+
+/** Validate and return a typed config, throwing one Error listing every problem. */
+export function parseConfig(raw: unknown): SlotConfig {
+  const issues = validateConfig(raw);
+  if (issues.length > 0)
+    throw new Error(`Invalid slot config:\n- ${issues.join("\n- ")}`);
+  return raw as SlotConfig;
+}
+
+/** Parse a JSON game file into a validated SlotConfig. */
+export function loadConfigFromJson(json: string): SlotConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new Error(
+      `Invalid slot config: ${err instanceof Error ? err.message : "bad JSON"}`
+    );
+  }
+  return parseConfig(raw);
+}
+
+/* ---------------- Lookups used by engine and UI ---------------- */
+
+export function symbolMap(config: SlotConfig): Map<string, SymbolDef> {
+  return new Map(config.symbols.map((s) => [s.id, s]));
+}
+
+/** Line pays for a symbol; scatters and wilds never pay on their own. */
+export function symbolPays(def: SymbolDef | undefined): RunPayout | null {
+  return def?.role === "regular" && def.pays ? def.pays : null;
+}
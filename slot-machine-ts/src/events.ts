@@ -0,0 +1,81 @@
+// src/events.ts
+//
+// Typed engine events. SlotMachine and BonusSession emit on machine.events as
+// things happen, synchronously and before any presentation, so consumers
+// (sound, persistence, statistics, analytics) can attach without touching the
+// code that plays rounds. Payloads share arrays with the returned results, so
+// treat them as read-only; a listener that throws is reported and the others
+// still run.
+
+import type {
+  BonusSpinResult,
+  JackpotWin,
+  LineWin,
+  RoundMode,
+  ScatterWin,
+  SymbolId,
+} from "./types";
+
+/** Why the balance moved. */
+export type WalletReason = "stake" | "win" | "deposit" | "bonus" | "gamble";
+
+/** Every engine event and its payload. */
+export interface EngineEvents {
+  /** A round was paid for: a base spin (with or without ante) or a bonus buy. */
+  betPlaced: { mode: RoundMode; betCents: number; stakeCents: number };
+  gridGenerated: {
+    grid: SymbolId[][];
+    stops?: number[];
+    bonus: boolean;
+    wilds?: number[][]; // free spins: multipliers after bump + spawn
+  };
+  lineWin: { win: LineWin; bonus: boolean };
+  scatterWin: { win: ScatterWin; bonus: boolean };
+  jackpot: JackpotWin;
+  freeSpinsAwarded: { spins: number; scatterCount: number };
+  bonusSpin: BonusSpinResult;
+  wildSpawned: { row: number; col: number };
+  wildUpgraded: { row: number; col: number; multiplier: number };
+  bonusRetrigger: { spins: number; totalSpins: number };
+  /** The last free spin was played; the total is credited separately (creditWinnings). */
+  bonusEnded: { betCents: number; spinsPlayed: number; totalWinCents: number };
+  walletChanged: {
+    balanceCents: number;
+    deltaCents: number;
+    reason: WalletReason;
+  };
+}
+
+export type EngineEventName = keyof EngineEvents;
+
+export type Listener<T> = (payload: T) => void;
+
+/** A minimal typed emitter: `E` maps event names to payload types. */
+export class EventBus<E> {
+  private listeners = new Map<keyof E, Set<Listener<never>>>();
+
+  /** Subscribe; returns the matching unsubscribe. */
+  on<K extends keyof E>(name: K, listener: Listener<E[K]>): () => void {
+    let set = this.listeners.get(name);
+    if (!set) this.listeners.set(name, (set = new Set()));
+    set.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  off<K extends keyof E>(name: K, listener: Listener<E[K]>): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  emit<K extends keyof E>(name: K, payload: E[K]): void {
+    const set = this.listeners.get(name);
+    if (!set) return;
+    // a listener may unsubscribe while we iterate
+    for (const listener of [...set] as Listener<E[K]>[]) {
+      try {
+        listener(payload);
+      } catch (err) {
+        console.error(`Listener for ${String(name)} failed`, err);
+      }
+    }
+  }
+}
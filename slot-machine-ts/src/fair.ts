@@ -0,0 +1,189 @@
+// src/fair.ts
+//
+// Provably fair RNG. Before play the player sees sha256(serverSeed); each
+// round draws from HMAC-SHA256(serverSeed, "clientSeed:nonce:block"), 4 bytes
+// per number. Rotating reveals the old server seed so every round played with
+// it can be regenerated and checked. In this client-only build the "server"
+// seed is kept in the browser; a real deployment keeps it on the server.
+
+import type { PlayedRound, RoundMode, SlotConfig } from "./types";
+import type { Rng } from "./rng";
+import { hmacSha256, sha256Hex, toHex } from "./sha256";
+import { SlotMachine, playRound, roundCostCents } from "./slotmachine";
+
+/** Seeds that reproduce one round once the server seed is known. */
+export interface FairRound {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
+/** A server seed that is no longer in use and may be shown to the player. */
+export interface RevealedSeed {
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  lastNonce: number; // rounds played were nonces 0..lastNonce-1
+}
+
+export interface FairState {
+  serverSeed: string;
+  clientSeed: string;
+  nonce: number;
+  revealed: RevealedSeed[];
+}
+
+const MAX_REVEALED = 20;
+
+function randomHex(bytes: number): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/** Deterministic [0, 1) stream for one round; `draws` counts numbers consumed. */
+export function createFairRng(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number
+): Rng & { readonly draws: number } {
+  let block = 0;
+  let bytes: Uint8Array = new Uint8Array(0);
+  let offset = 0;
+  let draws = 0;
+  return {
+    next() {
+      if (offset + 4 > bytes.length) {
+        bytes = hmacSha256(serverSeed, `${clientSeed}:${nonce}:${block++}`);
+        offset = 0;
+      }
+      const n =
+        ((bytes[offset] << 24) |
+          (bytes[offset + 1] << 16) |
+          (bytes[offset + 2] << 8) |
+          bytes[offset + 3]) >>>
+        0;
+      offset += 4;
+      draws++;
+      return n / 4294967296;
+    },
+    get draws() {
+      return draws;
+    },
+  };
+}
+
+/** Owns the current seed pair and nonce; `rng` draws from the round started last. */
+export class ProvablyFair {
+  private serverSeed: string;
+  private clientSeed: string;
+  private nonce: number;
+  private revealed: RevealedSeed[];
+  private stream: ReturnType<typeof createFairRng>;
+
+  readonly rng: Rng = { next: () => this.stream.next() };
+
+  constructor(saved?: FairState | null) {
+    this.serverSeed = saved?.serverSeed ?? randomHex(32);
+    this.clientSeed = saved?.clientSeed ?? randomHex(8);
+    this.nonce = saved?.nonce ?? 0;
+    this.revealed = saved?.revealed ?? [];
+    this.stream = createFairRng(this.serverSeed, this.clientSeed, this.nonce);
+  }
+
+  /** Commitment shown before play: sha256 of the hidden server seed. */
+  get serverSeedHash(): string {
+    return sha256Hex(this.serverSeed);
+  }
+
+  get currentClientSeed(): string {
+    return this.clientSeed;
+  }
+
+  /** Nonce the next round will use. */
+  get nextNonce(): number {
+    return this.nonce;
+  }
+
+  /** Numbers drawn so far in the current round. */
+  get draws(): number {
+    return this.stream.draws;
+  }
+
+  /** Begin a round on a fresh stream and return the seeds that reproduce it. */
+  startRound(): FairRound {
+    const round: FairRound = {
+      serverSeedHash: this.serverSeedHash,
+      clientSeed: this.clientSeed,
+      nonce: this.nonce,
+    };
+    this.stream = createFairRng(this.serverSeed, this.clientSeed, this.nonce);
+    this.nonce++;
+    return round;
+  }
+
+  /** Continue a round after a reload: same stream, fast-forwarded past `draws` numbers. */
+  resumeRound(round: FairRound, draws: number): void {
+    if (round.serverSeedHash !== this.serverSeedHash)
+      throw new Error("The server seed for this round has been rotated");
+    this.stream = createFairRng(this.serverSeed, round.clientSeed, round.nonce);
+    for (let i = 0; i < draws; i++) this.stream.next();
+  }
+
+  setClientSeed(seed: string): void {
+    const trimmed = seed.trim();
+    if (!trimmed) throw new Error("Client seed must not be empty");
+    this.clientSeed = trimmed;
+  }
+
+  /** Reveal the current server seed and commit to a new one; the nonce restarts at 0. */
+  rotate(): RevealedSeed {
+    const old: RevealedSeed = {
+      serverSeed: this.serverSeed,
+      serverSeedHash: this.serverSeedHash,
+      clientSeed: this.clientSeed,
+      lastNonce: this.nonce,
+    };
+    this.revealed = [old, ...this.revealed].slice(0, MAX_REVEALED);
+    this.serverSeed = randomHex(32);
+    this.nonce = 0;
+    return old;
+  }
+
+  /** Previously revealed seeds, newest first. */
+  getRevealed(): readonly RevealedSeed[] {
+    return this.revealed;
+  }
+
+  /** Revealed server seed matching a committed hash, if it has been rotated out. */
+  findRevealed(serverSeedHash: string): string | undefined {
+    return this.revealed.find((r) => r.serverSeedHash === serverSeedHash)
+      ?.serverSeed;
+  }
+
+  getState(): FairState {
+    return {
+      serverSeed: this.serverSeed,
+      clientSeed: this.clientSeed,
+      nonce: this.nonce,
+      revealed: this.revealed,
+    };
+  }
+}
+
+/** Independently regenerate a round's grid, wins and bonus from its seeds. */
+export function regenerateRound(
+  config: SlotConfig,
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  betCents: number,
+  mode: RoundMode = { type: "spin" }
+): PlayedRound {
+  if (!Number.isInteger(nonce) || nonce < 0)
+    throw new Error("Nonce must be a non-negative integer");
+  const machine = new SlotMachine(
+    config,
+    { balanceCents: roundCostCents(config, betCents, mode), betCents },
+    createFairRng(serverSeed, clientSeed, nonce)
+  );
+  return playRound(machine, mode);
+}
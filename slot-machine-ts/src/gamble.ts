@@ -0,0 +1,135 @@
+// src/gamble.ts
+//
+// Double-up after a base-game win: guess the colour (x2) or suit (x4) of a
+// card drawn with the machine's Rng. The wallet already holds the spin's win;
+// nothing changes until collect() settles the difference in one go. A gamble
+// still open at a reload is settled from its snapshot() instead.
+
+import type {
+  CardColor,
+  CardSuit,
+  GambleGuess,
+  GambleRules,
+  GambleSnapshot,
+  GambleStep,
+  SpinResult,
+} from "./types";
+import type { Rng } from "./rng";
+import type { SlotMachine } from "./slotmachine";
+
+export const SUITS: readonly CardSuit[] = [
+  "hearts",
+  "diamonds",
+  "clubs",
+  "spades",
+];
+
+export const DEFAULT_GAMBLE_RULES: GambleRules = {
+  maxSteps: 5,
+  maxStakeCents: 50000,
+};
+
+export function suitColor(suit: CardSuit): CardColor {
+  return suit === "hearts" || suit === "diamonds" ? "red" : "black";
+}
+
+function isColor(guess: GambleGuess): guess is CardColor {
+  return guess === "red" || guess === "black";
+}
+
+export class GambleSession {
+  private machine: SlotMachine;
+  private rng: Rng;
+  private rules: GambleRules;
+  private result: SpinResult;
+  private initialCents: number;
+  private stake: number;
+  private lost = false;
+  private collected = false;
+
+  constructor(
+    machine: SlotMachine,
+    rng: Rng,
+    result: SpinResult,
+    rules: GambleRules
+  ) {
+    if (result.totalWinCents <= 0)
+      throw new Error("Only a winning spin can be gambled");
+    if (result.freeSpinsAwarded > 0)
+      throw new Error("Wins that trigger free spins cannot be gambled");
+    if (result.jackpotWins.length > 0)
+      throw new Error("Jackpot wins cannot be gambled");
+    if (result.gamble?.length)
+      throw new Error("This win has already been gambled");
+
+    this.machine = machine;
+    this.rng = rng;
+    this.rules = rules;
+    this.result = result;
+    this.result.gamble = [];
+    this.initialCents = result.totalWinCents;
+    this.stake = result.totalWinCents;
+  }
+
+  /** Amount currently at risk (what collect() would pay). */
+  get stakeCents(): number {
+    return this.stake;
+  }
+
+  get stepsPlayed(): number {
+    return this.result.gamble!.length;
+  }
+
+  get isFinished(): boolean {
+    return this.lost || this.collected;
+  }
+
+  /** Whether another step is allowed under the rules. */
+  get canGamble(): boolean {
+    return (
+      !this.isFinished &&
+      this.stepsPlayed < this.rules.maxSteps &&
+      this.stake <= this.rules.maxStakeCents
+    );
+  }
+
+  /** Draw a card and resolve one guess; the step is also appended to the spin's result. */
+  play(guess: GambleGuess): GambleStep {
+    if (!this.canGamble) throw new Error("No further gamble is allowed");
+    if (!isColor(guess) && !SUITS.includes(guess))
+      throw new Error(`Unknown gamble guess: ${guess}`);
+
+    const suit = SUITS[Math.floor(this.rng.next() * SUITS.length)];
+    const won = isColor(guess) ? suitColor(suit) === guess : suit === guess;
+    const step: GambleStep = {
+      step: this.stepsPlayed + 1,
+      guess,
+      suit,
+      stakeCents: this.stake,
+      won,
+      resultCents: won ? this.stake * (isColor(guess) ? 2 : 4) : 0,
+    };
+
+    this.result.gamble!.push(step);
+    this.stake = step.resultCents;
+    if (!won) this.lost = true;
+    return step;
+  }
+
+  /** Settle the wallet with the gamble outcome and return the final amount. */
+  collect(): number {
+    if (this.collected) throw new Error("Gamble already collected");
+    this.collected = true;
+    this.machine.settleGamble(this.initialCents, this.stake);
+    return this.stake;
+  }
+
+  /** What a reload needs to settle the gamble as it stands (see SlotMachine.settleGamble). */
+  snapshot(): GambleSnapshot {
+    return {
+      initialCents: this.initialCents,
+      stakeCents: this.stake,
+      steps: this.result.gamble!.map((step) => ({ ...step })),
+    };
+  }
+}
@@ -0,0 +1,108 @@
+// src/games.ts
+//
+// Game registry for the lobby. Each entry is a complete SlotConfig; main.ts
+// sizes the grid, win lines, paytable and bonus from whichever one is chosen,
+// so a new game is a new entry here rather than a new UI. Every entry plays
+// in the default currency and saves are kept per currency (see storage.ts),
+// so all of them share one wallet.
+
+import type { SlotConfig, SymbolDef } from "./types";
+import { DEFAULT_CONFIG, DEFAULT_SYMBOLS } from "./slotmachine";
+import { DEFAULT_JACKPOTS } from "./jackpot";
+
+export interface GameEntry {
+  id: string; // ?game=<id>
+  name: string;
+  thumbnail: string; // glyph on the lobby card
+  description: string;
+  config: SlotConfig;
+}
+
+/** Fruit-machine symbols: no scatter, so no free spins or ante. Runs of 4 and 5 can't land on three reels. */
+const CLASSIC_SYMBOLS: SymbolDef[] = [
+  {
+    id: "CHERRY",
+    emoji: "🍒",
+    color: "#ff6b6b",
+    weight: 34,
+    role: "regular",
+    pays: { 3: 1, 4: 1, 5: 1 },
+  },
+  {
+    id: "LEMON",
+    emoji: "🍋",
+    color: "#ffd166",
+    weight: 28,
+    role: "regular",
+    pays: { 3: 2, 4: 2, 5: 2 },
+  },
+  {
+    id: "BELL",
+    emoji: "🔔",
+    color: "#f59e0b",
+    weight: 20,
+    role: "regular",
+    pays: { 3: 3, 4: 3, 5: 3 },
+  },
+  {
+    id: "SEVEN",
+    emoji: "7️⃣",
+    color: "#60a5fa",
+    weight: 10,
+    role: "regular",
+    pays: { 3: 12, 4: 12, 5: 12 },
+  },
+];
+
+/** Three reels, three rows, five lines; only 3-of-a-kind exists, so only random jackpots. */
+export const CLASSIC_CONFIG: SlotConfig = {
+  name: "Classic 3x3",
+  reels: 3,
+  rows: 3,
+  symbols: CLASSIC_SYMBOLS,
+  bonusBuy: [],
+  jackpots: DEFAULT_JACKPOTS.filter((p) => p.trigger.type === "random"),
+};
+
+/** The 5x5 game's symbols and free spins on six reels of four rows. */
+export const WIDE_CONFIG: SlotConfig = {
+  name: "Wild Fruits 6x4",
+  reels: 6,
+  rows: 4,
+  symbols: DEFAULT_SYMBOLS,
+  maxScattersPerReel: 1,
+};
+
+/** Lobby order. The 5x5 entry keeps DEFAULT_CONFIG unnamed, so its history stays "default". */
+export const GAMES: GameEntry[] = [
+  {
+    id: "classic",
+    name: "Classic 3x3",
+    thumbnail: "🍒",
+    description: "Three reels, five lines, no frills.",
+    config: CLASSIC_CONFIG,
+  },
+  {
+    id: "wild-fruits",
+    name: "Wild Fruits 5x5",
+    thumbnail: "🔔",
+    description: "Free spins with growing wild multipliers.",
+    config: DEFAULT_CONFIG,
+  },
+  {
+    id: "wide",
+    name: "Wild Fruits 6x4",
+    thumbnail: "⭐",
+    description: "Six reels of four, with the same free spins.",
+    config: WIDE_CONFIG,
+  },
+];
+
+export function findGame(id: string): GameEntry | undefined {
+  return GAMES.find((g) => g.id === id);
+}
+
+/** The registry entry whose rounds are recorded under `gameName` (SlotConfig.name or "default"). */
+export function gameForRecords(gameName: string): GameEntry | undefined {
+  return GAMES.find((g) => (g.config.name ?? "default") === gameName);
+}
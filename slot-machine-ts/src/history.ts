@@ -0,0 +1,337 @@
+// src/history.ts
+//
+// Spin history ledger: every base spin and bonus spin of a round, kept in
+// IndexedDB (newest HISTORY_LIMIT rounds) and exportable as JSON.
+
+import type {
+  BonusSpinResult,
+  CascadeStep,
+  GambleStep,
+  JackpotWin,
+  LineWin,
+  RoundMode,
+  ScatterWin,
+  SlotConfig,
+  SpinResult,
+  SymbolId,
+  Wallet,
+} from "./types";
+import { SlotMachine, jackpotTotal, playRound } from "./slotmachine";
+import { type Rng, createMulberry32 } from "./rng";
+import { type FairRound, createFairRng } from "./fair";
+import { sha256Hex } from "./sha256";
+
+const DB_NAME = "ts-slots-history";
+const STORE = "rounds";
+export const HISTORY_LIMIT = 500;
+
+/** One spin exactly as it was shown: enough to replay it without the engine. */
+export interface SpinRecord {
+  kind: "base" | "bonus";
+  timestamp: number; // ms since epoch
+  betCents: number;
+  balanceBeforeCents: number;
+  balanceAfterCents: number; // bonus spins: unchanged, the total is credited at the end
+  rngState: number; // mulberry32 state before this spin, or draws into the round's fair stream
+  grid: SymbolId[][];
+  stops?: number[];
+  wilds: number[][] | null; // bonus wild multipliers after bump + spawn
+  bumpedWilds: Array<[number, number]>;
+  newWilds: Array<[number, number]>;
+  lineWins: LineWin[];
+  scatterWins?: ScatterWin[]; // missing on spins recorded before scatter pays existed
+  winCents: number; // line and scatter wins; jackpots are listed separately
+  jackpotWins?: JackpotWin[]; // base only: progressive pools won
+  freeSpinsAwarded: number; // base: scatter award; bonus: retrigger spins
+  spinNumber?: number; // bonus only, 1-based
+  totalSpins?: number; // bonus only, after any retrigger
+  cascade?: CascadeStep[]; // base only, cascading games: every step from `grid` on
+  gamble?: GambleStep[]; // base only: double-up steps taken on this win
+}
+
+/** A base spin plus the free spins it triggered, or a bought bonus (bonus spins only). */
+export interface RoundRecord {
+  id?: number; // assigned by IndexedDB
+  game: string;
+  mode?: RoundMode; // missing on rounds recorded before ante/bonus buy existed (= spin)
+  startedAt: number;
+  betCents: number;
+  stakeCents?: number; // charged for the round: bet, bet + ante or the bonus-buy price
+  balanceBeforeCents: number;
+  balanceAfterCents: number; // after the bonus total was credited
+  totalWinCents: number; // base win + jackpots + bonus total
+  rngState: number; // state before the base spin; reproduces the whole round
+  fair?: FairRound; // provably fair rounds: seeds instead of a mulberry32 state
+  spins: SpinRecord[];
+}
+
+/** Start a round from a resolved base spin. */
+export function startRound(
+  game: string,
+  result: SpinResult,
+  before: Wallet,
+  after: Wallet,
+  rngState: number,
+  fair?: FairRound
+): RoundRecord {
+  const timestamp = Date.now();
+  return {
+    game,
+    mode: { type: result.ante ? "ante" : "spin" },
+    fair,
+    startedAt: timestamp,
+    betCents: before.betCents,
+    stakeCents: result.stakeCents,
+    balanceBeforeCents: before.balanceCents,
+    balanceAfterCents: after.balanceCents,
+    totalWinCents: result.totalWinCents + jackpotTotal(result),
+    rngState,
+    spins: [
+      {
+        kind: "base",
+        timestamp,
+        betCents: before.betCents,
+        balanceBeforeCents: before.balanceCents,
+        balanceAfterCents: after.balanceCents,
+        rngState,
+        grid: result.grid,
+        stops: result.stops,
+        wilds: null,
+        bumpedWilds: [],
+        newWilds: [],
+        lineWins: result.lineWins,
+        scatterWins: result.scatterWins,
+        winCents: result.totalWinCents,
+        jackpotWins: result.jackpotWins,
+        cascade: result.cascade,
+        freeSpinsAwarded: result.freeSpinsAwarded,
+      },
+    ],
+  };
+}
+
+/** Start a round for a bought bonus; its free spins follow via recordBonusSpin. */
+export function startBoughtRound(
+  game: string,
+  spins: number,
+  costCents: number,
+  before: Wallet,
+  after: Wallet,
+  rngState: number,
+  fair?: FairRound
+): RoundRecord {
+  return {
+    game,
+    mode: { type: "buy", spins },
+    fair,
+    startedAt: Date.now(),
+    betCents: before.betCents,
+    stakeCents: costCents,
+    balanceBeforeCents: before.balanceCents,
+    balanceAfterCents: after.balanceCents,
+    totalWinCents: 0,
+    rngState,
+    spins: [],
+  };
+}
+
+/** Append one free spin to a round. */
+export function recordBonusSpin(
+  round: RoundRecord,
+  spin: BonusSpinResult,
+  balanceCents: number,
+  rngState: number
+): void {
+  round.spins.push({
+    kind: "bonus",
+    timestamp: Date.now(),
+    betCents: round.betCents,
+    balanceBeforeCents: balanceCents,
+    balanceAfterCents: balanceCents,
+    rngState,
+    grid: spin.grid,
+    stops: spin.stops,
+    wilds: spin.wilds,
+    bumpedWilds: spin.bumpedWilds,
+    newWilds: spin.newWilds,
+    lineWins: spin.lineWins,
+    scatterWins: spin.scatterWins,
+    winCents: spin.winCents,
+    freeSpinsAwarded: spin.retriggerSpins,
+    spinNumber: spin.spinNumber,
+    totalSpins: spin.totalSpins,
+  });
+}
+
+/** Close a round once any bonus has been credited. */
+export function finishRound(
+  round: RoundRecord,
+  bonusTotalCents: number,
+  after: Wallet
+): void {
+  round.totalWinCents += bonusTotalCents;
+  round.balanceAfterCents = after.balanceCents;
+}
+
+/** Attach collected gamble steps to a round; the gambled amount replaces the base win. */
+export function recordGamble(
+  round: RoundRecord,
+  steps: GambleStep[],
+  finalCents: number,
+  after: Wallet
+): void {
+  round.spins[0].gamble = steps;
+  round.totalWinCents = finalCents;
+  round.balanceAfterCents = after.balanceCents;
+}
+
+/**
+ * Re-run a round through the engine from its recorded seeds and check that
+ * every grid and win matches the ledger. Only meaningful with the same config.
+ * Provably fair rounds need their revealed server seed; without it the result is null.
+ */
+export function verifyRound(
+  config: SlotConfig,
+  round: RoundRecord,
+  serverSeed?: string
+): boolean | null {
+  let rng: Rng;
+  if (round.fair) {
+    if (!serverSeed) return null;
+    if (sha256Hex(serverSeed) !== round.fair.serverSeedHash) return false;
+    rng = createFairRng(serverSeed, round.fair.clientSeed, round.fair.nonce);
+  } else {
+    rng = createMulberry32(round.rngState);
+  }
+  const machine = new SlotMachine(
+    config,
+    { balanceCents: round.balanceBeforeCents, betCents: round.betCents },
+    rng
+  );
+  const played = playRound(machine, round.mode);
+  const base = played.result; // null for a bought bonus
+
+  if (base) {
+    // gamble draws follow the base spin in the same stream; repeat the same guesses
+    const gamble = round.spins[0].gamble ?? [];
+    if (gamble.length > 0) {
+      const session = machine.startGamble(base);
+      for (const step of gamble) {
+        const again = session.play(step.guess);
+        if (again.suit !== step.suit || again.resultCents !== step.resultCents)
+          return false;
+      }
+    }
+
+    // pool values depend on play before the round; which pools hit does not
+    const jackpotIds = (wins: JackpotWin[] | undefined) =>
+      (wins ?? []).map((j) => j.poolId).join();
+    if (jackpotIds(base.jackpotWins) !== jackpotIds(round.spins[0].jackpotWins))
+      return false;
+  }
+
+  const replayed = [
+    ...(base ? [{ grid: base.grid, winCents: base.totalWinCents }] : []),
+    ...played.bonusSpins,
+  ];
+
+  return (
+    replayed.length === round.spins.length &&
+    replayed.every(
+      (s, i) =>
+        s.winCents === round.spins[i].winCents &&
+        JSON.stringify(s.grid) === JSON.stringify(round.spins[i].grid)
+    )
+  );
+}
+
+/* ---------------- IndexedDB ---------------- */
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Store a finished round and drop the oldest rounds beyond HISTORY_LIMIT. */
+export async function saveRound(round: RoundRecord): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    store.add(round);
+    const count = store.count();
+    count.onsuccess = () => {
+      let excess = count.result - HISTORY_LIMIT;
+      if (excess <= 0) return;
+      // keys grow with insertion order, so the first ones are the oldest
+      store.openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>)
+          .result;
+        if (!cursor || excess-- <= 0) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    };
+    await done(tx);
+  } catch {
+    // history is best effort (private browsing / quota)
+  }
+}
+
+/** Newest rounds first. */
+export async function loadRounds(
+  limit = HISTORY_LIMIT
+): Promise<RoundRecord[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE, "readonly");
+    const rounds: RoundRecord[] = [];
+    tx.objectStore(STORE).openCursor(null, "prev").onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor || rounds.length >= limit) return;
+      rounds.push(cursor.value as RoundRecord);
+      cursor.continue();
+    };
+    await done(tx);
+    return rounds;
+  } catch {
+    return [];
+  }
+}
+
+export async function clearRounds(): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).clear();
+    await done(tx);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+/** Whole ledger, oldest first, as pretty-printed JSON. */
+export async function exportRounds(): Promise<string> {
+  const rounds = (await loadRounds()).reverse();
+  return JSON.stringify({ exportedAt: Date.now(), rounds }, null, 2);
+}
@@ -0,0 +1,114 @@
+// src/jackpot.ts
+//
+// Progressive jackpots. Every base bet feeds each pool by its contribution
+// share; a pool pays its whole value when its trigger hits and restarts at its
+// seed. Random triggers draw from the machine's Rng, so they replay exactly.
+
+import type { JackpotPool, JackpotWin, LineWin, SymbolId } from "./types";
+import type { Rng } from "./rng";
+
+export const DEFAULT_JACKPOTS: JackpotPool[] = [
+  {
+    id: "mini",
+    name: "Mini",
+    seedCents: 1000,
+    contribution: 0.004,
+    trigger: { type: "random", chance: 1 / 2000 },
+  },
+  {
+    id: "minor",
+    name: "Minor",
+    seedCents: 5000,
+    contribution: 0.003,
+    trigger: { type: "random", chance: 1 / 20000 },
+  },
+  {
+    id: "major",
+    name: "Major",
+    seedCents: 50000,
+    contribution: 0.002,
+    minBetCents: 100,
+    trigger: { type: "random", chance: 1 / 250000 },
+  },
+  {
+    id: "grand",
+    name: "Grand",
+    seedCents: 100000,
+    contribution: 0.001,
+    minBetCents: 100,
+    trigger: { type: "line" },
+  },
+];
+
+/** Pool id → current value in cents. Values keep fractional contributions. */
+export type JackpotState = Record<string, number>;
+
+export class JackpotPools {
+  private pools: JackpotPool[];
+  private topSymbol: SymbolId;
+  private values = new Map<string, number>();
+
+  /** `topSymbol` is what a line trigger without its own symbol pays on. */
+  constructor(
+    pools: JackpotPool[],
+    topSymbol: SymbolId,
+    saved?: JackpotState | null
+  ) {
+    this.pools = pools;
+    this.topSymbol = topSymbol;
+    for (const p of pools) this.values.set(p.id, p.seedCents);
+    if (saved) this.restore(saved);
+  }
+
+  getPools(): readonly JackpotPool[] {
+    return this.pools;
+  }
+
+  /** What the pool would pay right now, in whole cents. */
+  valueCents(id: string): number {
+    return Math.floor(this.values.get(id) ?? 0);
+  }
+
+  /**
+   * Plain-data copy for the save file, on top of `saved`: games sharing a save
+   * run different pools, and one without the Grand must not drop its value.
+   */
+  getState(saved?: JackpotState | null): JackpotState {
+    return { ...saved, ...Object.fromEntries(this.values) };
+  }
+
+  /** Load saved values; pools missing from the save (or below seed) keep their seed. */
+  restore(state: JackpotState): void {
+    for (const p of this.pools) {
+      const v = state[p.id];
+      if (typeof v === "number" && Number.isFinite(v) && v >= p.seedCents)
+        this.values.set(p.id, v);
+    }
+  }
+
+  /**
+   * Feed every pool from one base bet, then resolve each pool's trigger in
+   * config order. Won pools are returned with their payout and reset to seed.
+   */
+  settle(betCents: number, lineWins: LineWin[], rng: Rng): JackpotWin[] {
+    const wins: JackpotWin[] = [];
+    for (const p of this.pools) {
+      const value = this.values.get(p.id)! + betCents * p.contribution;
+      this.values.set(p.id, value);
+      if (betCents < (p.minBetCents ?? 0)) continue;
+
+      const t = p.trigger;
+      const hit =
+        t.type === "random"
+          ? rng.next() < t.chance
+          : lineWins.some(
+              (w) => w.length === 5 && w.symbol === (t.symbol ?? this.topSymbol)
+            );
+      if (!hit) continue;
+
+      wins.push({ poolId: p.id, name: p.name, winCents: Math.floor(value) });
+      this.values.set(p.id, p.seedCents);
+    }
+    return wins;
+  }
+}
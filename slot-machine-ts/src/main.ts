@@ -1,27 +1,304 @@
 import {
-  createDefaultMachine,
-  DEFAULT_PAYOUT,
-  DEFAULT_SYMBOLS,
+  SlotMachine,
+  resolvePaylines,
+  roundCostCents,
+  scatterAward,
+  winTierFor,
+  type BonusSession,
 } from "./slotmachine";
-import type { SymbolId, LineWin } from "./types";
-import { loadWallet, saveWallet } from "./storage";
+import type {
+  SymbolId,
+  LineWin,
+  ScatterWin,
+  ScatterTable,
+  SlotConfig,
+  SpinResult,
+  BonusSpinResult,
+  CardSuit,
+  GambleGuess,
+  GambleStep,
+  JackpotWin,
+  RoundMode,
+  CascadeStep,
+  WinTier,
+} from "./types";
+import { type GambleSession, suitColor } from "./gamble";
+import { loadConfigFromJson, symbolPays } from "./config";
+import {
+  loadGame,
+  saveGame,
+  SAVE_VERSION,
+  DEFAULT_SETTINGS,
+  bonusToSave,
+  type SavedBonus,
+  type SavedGamble,
+  loadFairState,
+  saveFairState,
+  loadResponsible,
+  saveResponsible,
+} from "./storage";
+import { ProvablyFair, regenerateRound } from "./fair";
+import {
+  ResponsibleGaming,
+  type RgLimits,
+  type DepositPeriod,
+} from "./responsible";
+import {
+  Autoplay,
+  AUTOPLAY_ROUNDS,
+  type AutoplaySettings,
+  type AutoplayStop,
+} from "./autoplay";
+import { sha256Hex } from "./sha256";
+import { Money, DEFAULT_CURRENCY } from "./money";
+import { SoundEngine } from "./audio";
+import { GAMES, findGame, gameForRecords } from "./games";
+import { SessionStats } from "./stats";
+import {
+  type RoundRecord,
+  startRound,
+  recordBonusSpin,
+  recordGamble,
+  startBoughtRound,
+  finishRound,
+  verifyRound,
+  saveRound,
+  loadRounds,
+  clearRounds,
+  exportRounds,
+} from "./history";
 
 /* ---------------- DOM refs ---------------- */
+const titleEl = document.getElementById("game-title") as HTMLHeadingElement;
+const lobbyBtn = document.getElementById("lobby-open") as HTMLButtonElement;
+const lobbyEl = document.getElementById("lobby") as HTMLDivElement;
+const lobbyGamesEl = document.getElementById("lobby-games") as HTMLDivElement;
+const lobbyBalanceEl = document.getElementById(
+  "lobby-balance"
+) as HTMLSpanElement;
 const balanceEl = document.getElementById("balance") as HTMLSpanElement;
 const betEl = document.getElementById("bet") as HTMLSelectElement;
 const lastWinEl = document.getElementById("last-win") as HTMLSpanElement;
+const announcer = document.getElementById("announcer") as HTMLDivElement;
+const reduceMotionEl = document.getElementById(
+  "reduce-motion"
+) as HTMLInputElement;
 const reelsRoot = document.getElementById("reels") as HTMLDivElement;
 const spinBtn = document.getElementById("spin") as HTMLButtonElement;
 const addFundsBtn = document.getElementById("add-funds") as HTMLButtonElement;
+const moneyDisplayEl = document.getElementById(
+  "money-display"
+) as HTMLSelectElement;
+const anteWrap = document.getElementById("ante-wrap") as HTMLLabelElement;
+const anteEl = document.getElementById("ante") as HTMLInputElement;
+const anteCostEl = document.getElementById("ante-cost") as HTMLSpanElement;
+const buyWrap = document.getElementById("buy-wrap") as HTMLSpanElement;
+const buySpinsEl = document.getElementById("buy-spins") as HTMLSelectElement;
+const buyBtn = document.getElementById("buy-bonus") as HTMLButtonElement;
+const autoplayBtn = document.getElementById("autoplay") as HTMLButtonElement;
+const autoplayStatus = document.getElementById(
+  "autoplay-status"
+) as HTMLDivElement;
 const bonusHud = document.getElementById("bonus-hud") as HTMLDivElement;
 
 const paytableList = document.getElementById(
   "paytable-list"
 ) as HTMLUListElement;
+const paytableSummary = document.getElementById(
+  "paytable-summary"
+) as HTMLElement;
 
 const overlaySvg = document.querySelector<SVGSVGElement>("#line-overlay")!;
+const winLabelEl = document.getElementById("win-label") as HTMLDivElement;
+const turboEl = document.getElementById("turbo") as HTMLInputElement;
 const slotStage = document.getElementById("slot-stage") as HTMLDivElement;
 
+/* History UI */
+const historyList = document.getElementById("history-list") as HTMLOListElement;
+const historyExportBtn = document.getElementById(
+  "history-export"
+) as HTMLButtonElement;
+const historyClearBtn = document.getElementById(
+  "history-clear"
+) as HTMLButtonElement;
+
+/* Session stats UI */
+const statsList = document.getElementById("stats-list") as HTMLDListElement;
+const statsChart = document.getElementById(
+  "stats-chart"
+) as unknown as SVGSVGElement;
+const statsExportBtn = document.getElementById(
+  "stats-export"
+) as HTMLButtonElement;
+const statsResetBtn = document.getElementById(
+  "stats-reset"
+) as HTMLButtonElement;
+
+/* Provably fair UI */
+const fairHashEl = document.getElementById("fair-hash") as HTMLElement;
+const fairClientInput = document.getElementById(
+  "fair-client"
+) as HTMLInputElement;
+const fairClientSetBtn = document.getElementById(
+  "fair-client-set"
+) as HTMLButtonElement;
+const fairNonceEl = document.getElementById("fair-nonce") as HTMLSpanElement;
+const fairRotateBtn = document.getElementById(
+  "fair-rotate"
+) as HTMLButtonElement;
+const fairRevealedList = document.getElementById(
+  "fair-revealed"
+) as HTMLUListElement;
+const verifyOpenBtn = document.getElementById(
+  "verify-open"
+) as HTMLButtonElement;
+const verifyOverlay = document.getElementById(
+  "verify-overlay"
+) as HTMLDivElement;
+const verifyForm = document.getElementById("verify-form") as HTMLFormElement;
+const verifyServerInput = document.getElementById(
+  "verify-server"
+) as HTMLInputElement;
+const verifyClientInput = document.getElementById(
+  "verify-client"
+) as HTMLInputElement;
+const verifyNonceInput = document.getElementById(
+  "verify-nonce"
+) as HTMLInputElement;
+const verifyBetInput = document.getElementById(
+  "verify-bet"
+) as HTMLInputElement;
+const verifyModeInput = document.getElementById(
+  "verify-mode"
+) as HTMLSelectElement;
+const verifyOutput = document.getElementById("verify-output") as HTMLPreElement;
+const verifyCloseBtn = document.getElementById(
+  "verify-close"
+) as HTMLButtonElement;
+
+/* Jackpot UI */
+const jackpotMeters = document.getElementById(
+  "jackpot-meters"
+) as HTMLDivElement;
+const jackpotOverlay = document.getElementById(
+  "jackpot-overlay"
+) as HTMLDivElement;
+const jackpotTitle = document.getElementById("jackpot-title") as HTMLDivElement;
+const jackpotAmount = document.getElementById(
+  "jackpot-amount"
+) as HTMLDivElement;
+const jackpotCloseBtn = document.getElementById(
+  "jackpot-close"
+) as HTMLButtonElement;
+
+/* Gamble UI */
+const gamblePanel = document.getElementById("gamble") as HTMLDivElement;
+const gambleStakeEl = document.getElementById(
+  "gamble-stake"
+) as HTMLSpanElement;
+const gambleStepsEl = document.getElementById(
+  "gamble-steps"
+) as HTMLSpanElement;
+const gambleCardEl = document.getElementById("gamble-card") as HTMLDivElement;
+const gambleGuessBtns = Array.from(
+  document.querySelectorAll<HTMLButtonElement>(".gamble-guess")
+);
+const gambleCollectBtn = document.getElementById(
+  "gamble-collect"
+) as HTMLButtonElement;
+const gambleLog = document.getElementById("gamble-log") as HTMLDivElement;
+
+/* Autoplay settings */
+const autoplayFields = document.getElementById(
+  "autoplay-fields"
+) as HTMLFieldSetElement;
+const autoplayRoundsEl = document.getElementById(
+  "autoplay-rounds"
+) as HTMLSelectElement;
+const autoplayLossEl = document.getElementById(
+  "autoplay-loss"
+) as HTMLInputElement;
+const autoplayWinEl = document.getElementById(
+  "autoplay-win"
+) as HTMLInputElement;
+const autoplayBelowEl = document.getElementById(
+  "autoplay-below"
+) as HTMLInputElement;
+const autoplayAboveEl = document.getElementById(
+  "autoplay-above"
+) as HTMLInputElement;
+const autoplayFsEl = document.getElementById("autoplay-fs") as HTMLInputElement;
+
+/* Sound settings */
+const soundMutedEl = document.getElementById("sound-muted") as HTMLInputElement;
+const soundMasterEl = document.getElementById(
+  "sound-master"
+) as HTMLInputElement;
+const soundMusicEl = document.getElementById("sound-music") as HTMLInputElement;
+const soundEffectsEl = document.getElementById(
+  "sound-effects"
+) as HTMLInputElement;
+
+/* Responsible gaming UI */
+const rgFields = document.getElementById("rg-fields") as HTMLFieldSetElement;
+const rgDepositEls: Record<DepositPeriod, HTMLInputElement> = {
+  daily: document.getElementById("rg-daily") as HTMLInputElement,
+  weekly: document.getElementById("rg-weekly") as HTMLInputElement,
+  monthly: document.getElementById("rg-monthly") as HTMLInputElement,
+};
+const rgSessionTimeEl = document.getElementById(
+  "rg-session-time"
+) as HTMLInputElement;
+const rgSessionLossEl = document.getElementById(
+  "rg-session-loss"
+) as HTMLInputElement;
+const rgRealityEl = document.getElementById("rg-reality") as HTMLInputElement;
+const rgSaveBtn = document.getElementById("rg-save") as HTMLButtonElement;
+const rgBreakLengthEl = document.getElementById(
+  "rg-break-length"
+) as HTMLSelectElement;
+const rgBreakBtn = document.getElementById("rg-break") as HTMLButtonElement;
+const rgExcludeLengthEl = document.getElementById(
+  "rg-exclude-length"
+) as HTMLSelectElement;
+const rgExcludeBtn = document.getElementById("rg-exclude") as HTMLButtonElement;
+const rgStatus = document.getElementById("rg-status") as HTMLDivElement;
+const realityOverlay = document.getElementById(
+  "reality-overlay"
+) as HTMLDivElement;
+const realityTimeEl = document.getElementById("reality-time") as HTMLDivElement;
+const realityNetEl = document.getElementById("reality-net") as HTMLSpanElement;
+const realityContinueBtn = document.getElementById(
+  "reality-continue"
+) as HTMLButtonElement;
+const realityBreakBtn = document.getElementById(
+  "reality-break"
+) as HTMLButtonElement;
+
+/* Resume UI */
+const resumeOverlay = document.getElementById(
+  "resume-overlay"
+) as HTMLDivElement;
+const resumeProgress = document.getElementById(
+  "resume-progress"
+) as HTMLDivElement;
+const resumeTotalEl = document.getElementById(
+  "resume-total"
+) as HTMLSpanElement;
+const resumePlayBtn = document.getElementById(
+  "resume-play"
+) as HTMLButtonElement;
+const resumeCollectBtn = document.getElementById(
+  "resume-collect"
+) as HTMLButtonElement;
+
+/* Big win UI */
+const bigWinOverlay = document.getElementById("big-win") as HTMLDivElement;
+const bigWinTitle = document.getElementById("big-win-title") as HTMLDivElement;
+const bigWinAmount = document.getElementById(
+  "big-win-amount"
+) as HTMLDivElement;
+
 /* Bonus UI */
 const bonusOverlay = document.getElementById("bonus-overlay") as HTMLDivElement;
 const bonusProgress = document.getElementById(
@@ -35,111 +312,439 @@ const bonusCloseBtn = document.getElementById(
 bonusOverlay.hidden = true;
 bonusCloseBtn.hidden = true;
 
-/* ---------------- Euro helpers ---------------- */
-function formatEuro(cents: number): string {
-  return `€${(cents / 100).toFixed(2)}`;
+/* ---------------- Game init ---------------- */
+
+interface ChosenGame {
+  config: SlotConfig;
+  title: string;
 }
 
-/* ---------------- Game init ---------------- */
-const persisted = loadWallet();
-const initialBalance = persisted?.balanceCents ?? 10000;
-const machine = createDefaultMachine(
-  initialBalance,
-  Number(betEl.value || 100)
+/**
+ * `?game=<id>` plays a registry game (games.ts) and `?game=<url>` loads a JSON
+ * SlotConfig; without either, the lobby picks one.
+ */
+async function loadGameConfig(): Promise<ChosenGame> {
+  const param = new URLSearchParams(location.search).get("game");
+  if (!param) return chooseGame();
+  const entry = findGame(param);
+  if (entry) return { config: entry.config, title: entry.name };
+  try {
+    const res = await fetch(param);
+    if (!res.ok) throw new Error(`Could not load ${param} (${res.status})`);
+    const config = loadConfigFromJson(await res.text());
+    return { config, title: config.name ?? "Slot Machine" };
+  } catch (err) {
+    alert(err instanceof Error ? err.message : "Invalid game config");
+    return chooseGame();
+  }
+}
+
+/** Show the lobby until a game is picked; the balance shown is the shared wallet. */
+function chooseGame(): Promise<ChosenGame> {
+  const wallet = loadGame(DEFAULT_CURRENCY.code);
+  lobbyBalanceEl.textContent = new Money().format(
+    wallet?.balanceCents ?? DEFAULT_CURRENCY.startingBalanceCents
+  );
+  lobbyEl.hidden = false;
+  return new Promise((resolve) => {
+    lobbyGamesEl.replaceChildren(
+      ...GAMES.map((game) => {
+        const card = document.createElement("button");
+        card.className = "lobby-game";
+        const thumb = document.createElement("span");
+        thumb.className = "lobby-thumb";
+        thumb.setAttribute("aria-hidden", "true");
+        thumb.textContent = game.thumbnail;
+        const name = document.createElement("strong");
+        name.textContent = game.name;
+        const about = document.createElement("span");
+        about.textContent = `${game.config.reels}×${game.config.rows} · ${game.description}`;
+        card.append(thumb, name, about);
+        card.addEventListener("click", () => {
+          // the address names the game, so reloads and Back behave
+          const params = new URLSearchParams(location.search);
+          params.set("game", game.id);
+          history.pushState(null, "", `?${params}`);
+          lobbyEl.hidden = true;
+          resolve({ config: game.config, title: game.name });
+        });
+        return card;
+      })
+    );
+  });
+}
+
+const { config, title } = await loadGameConfig();
+titleEl.textContent = title;
+document.title = title;
+// amounts in the player's locale; each currency keeps its own save
+const currency = config.currency ?? DEFAULT_CURRENCY;
+const money = new Money(currency);
+const persisted = loadGame(currency.code);
+const initialBalance = persisted?.balanceCents ?? currency.startingBalanceCents;
+const settings = { ...(persisted?.settings ?? DEFAULT_SETTINGS) };
+if (
+  settings.credits !== null &&
+  currency.denominations.includes(settings.credits)
+)
+  money.setCredits(settings.credits);
+else settings.credits = null;
+betEl.replaceChildren(
+  ...currency.betLadder.map((cents) => {
+    const opt = document.createElement("option");
+    opt.value = String(cents);
+    return opt;
+  })
 );
+betEl.value = String(
+  persisted && currency.betLadder.includes(persisted.betCents)
+    ? persisted.betCents
+    : currency.defaultBetCents
+);
+// every round draws from a committed server seed, the client seed and a nonce
+const fair = new ProvablyFair(loadFairState());
+const machine = new SlotMachine(
+  config,
+  {
+    balanceCents: initialBalance,
+    betCents: Number(betEl.value),
+  },
+  fair.rng
+);
+const gameName = config.name ?? "default";
+const sound = new SoundEngine(settings.sound);
+const rg = new ResponsibleGaming(loadResponsible(), Date.now, money);
+machine.setGuard(rg);
+// engine events feed the stats as rounds are decided; the panel redraws after the reveal
+const stats = new SessionStats(persisted?.stats ?? null, initialBalance);
+stats.attach(machine.events);
+if (persisted?.jackpots) machine.getJackpots().restore(persisted.jackpots);
+if (machine.anteAvailable) machine.setAnte(settings.ante);
+
+/** Running autoplay, if any; the controls stay locked until it ends. */
+let autoplay: Autoplay | null = null;
+
+/** Free spins in progress; saved after every spin so a reload can resume them. */
+let activeBonus: { session: BonusSession; round: RoundRecord } | null = null;
+/** A saved bonus offered for resume; kept in the save until it is resumed or collected. */
+let waitingBonus: SavedBonus | null = persisted?.bonus ?? null;
+/** Gamble not collected yet; saved after every step so a reload settles it instead of undoing it. */
+let activeGamble: { session: GambleSession; round: RoundRecord } | null = null;
+
+function persist(): void {
+  const w = machine.getWallet();
+  saveGame({
+    version: SAVE_VERSION,
+    currency: currency.code,
+    balanceCents: w.balanceCents,
+    betCents: w.betCents,
+    settings,
+    bonus: bonusToSave(
+      activeBonus && {
+        session: activeBonus.session.snapshot(),
+        round: activeBonus.round,
+        draws: fair.draws,
+      },
+      waitingBonus
+    ),
+    gamble: activeGamble && {
+      state: activeGamble.session.snapshot(),
+      round: activeGamble.round,
+    },
+    jackpots: machine.getJackpots().getState(persisted?.jackpots),
+    stats: stats.getState(),
+  });
+  saveResponsible(rg.getState());
+}
 
 /* ---------------- Grid setup ---------------- */
-const ROWS = 5;
-const COLS = 5;
+const ROWS = config.rows;
+const COLS = config.reels;
+reelsRoot.style.setProperty("--rows", String(ROWS));
+reelsRoot.style.setProperty("--cols", String(COLS));
 
 const cellEls: HTMLDivElement[][] = [];
 const emojiEls: HTMLSpanElement[][] = [];
+/** Symbol each cell settled on; spinning frames don't count. Drives the cell labels. */
+const cellSymbols: SymbolId[][] = [];
 
 function buildGrid(): void {
   reelsRoot.innerHTML = "";
   cellEls.length = 0;
   emojiEls.length = 0;
+  cellSymbols.length = 0;
 
   for (let r = 0; r < ROWS; r++) {
     const rowCells: HTMLDivElement[] = [];
     const rowEmojis: HTMLSpanElement[] = [];
+    // rows only exist for assistive tech; the cells stay in the reels' CSS grid
+    const rowEl = document.createElement("div");
+    rowEl.className = "reel-row";
+    rowEl.setAttribute("role", "row");
 
     for (let c = 0; c < COLS; c++) {
       const cell = document.createElement("div");
       cell.className = "reel";
+      cell.setAttribute("role", "gridcell");
+      cell.tabIndex = r === 0 && c === 0 ? 0 : -1;
 
       const emoji = document.createElement("span");
       emoji.className = "emoji";
-      emoji.textContent = "🍒"; // placeholder
+      emoji.setAttribute("aria-hidden", "true");
+      renderSymbol(emoji, config.symbols[0].id); // placeholder
 
       cell.appendChild(emoji);
-      reelsRoot.appendChild(cell);
+      rowEl.appendChild(cell);
 
       rowCells.push(cell);
       rowEmojis.push(emoji);
     }
 
+    reelsRoot.appendChild(rowEl);
     cellEls.push(rowCells);
     emojiEls.push(rowEmojis);
+    cellSymbols.push(Array(COLS).fill(config.symbols[0].id));
   }
+  labelCells();
 }
 buildGrid();
 
 /* ---------------- Mappings ---------------- */
-const symbolToEmoji: Record<SymbolId, string> = {
-  CHERRY: "🍒",
-  LEMON: "🍋",
-  STAR: "⭐",
-  SEVEN: "7️⃣",
-  FS: "🔔",
-};
 
-const symbolColor: Record<SymbolId, string> = {
-  CHERRY: "#ff6b6b",
-  LEMON: "#ffd166",
-  STAR: "#a78bfa",
-  SEVEN: "#60a5fa",
-  FS: "#f59e0b",
-};
+/** Show a symbol's glyph, or its image when the config provides one. */
+function renderSymbol(el: HTMLElement, id: SymbolId): void {
+  const def = machine.getSymbol(id);
+  el.classList.toggle("symbol-image", !!def?.image);
+  if (def?.image) {
+    el.textContent = "";
+    el.style.backgroundImage = `url("${def.image}")`;
+    el.title = def.emoji || def.id;
+  } else {
+    el.textContent = def?.emoji ?? id;
+    el.style.backgroundImage = "";
+    el.title = "";
+  }
+}
+
+/** Blank a cell (wild cells show only their badge). */
+function clearSymbol(el: HTMLElement): void {
+  el.classList.remove("symbol-image");
+  el.textContent = "";
+  el.style.backgroundImage = "";
+}
+
+function symbolColor(id: SymbolId): string {
+  return machine.getSymbol(id)?.color ?? "#ffffff";
+}
+
+/* ---------------- Accessibility ---------------- */
+
+const motionQuery = matchMedia("(prefers-reduced-motion: reduce)");
+
+/** The in-game toggle wins; until it's touched, follow the system setting. */
+function reducedMotion(): boolean {
+  return settings.reducedMotion ?? motionQuery.matches;
+}
+
+/** CSS animations (badges, flashes, pulses) follow the same switch. */
+function applyMotionSetting(): void {
+  document.documentElement.classList.toggle("reduce-motion", reducedMotion());
+  reduceMotionEl.checked = reducedMotion();
+}
+
+function onReduceMotionChange(): void {
+  settings.reducedMotion = reduceMotionEl.checked;
+  applyMotionSetting();
+  persist();
+}
+
+function symbolName(id: SymbolId): string {
+  const def = machine.getSymbol(id);
+  return def?.name ?? id.toLowerCase();
+}
+
+/** Name every cell after what it shows: position, symbol, wild multiplier, win. */
+function labelCells(): void {
+  for (let r = 0; r < ROWS; r++) {
+    for (let c = 0; c < COLS; c++) {
+      const cell = cellEls[r][c];
+      const badge = cell.querySelector(".wild-badge")?.textContent;
+      const what = badge ? `wild ${badge}` : symbolName(cellSymbols[r][c]);
+      const win = cell.classList.contains("win") ? ", winning" : "";
+      cell.setAttribute(
+        "aria-label",
+        `Row ${r + 1}, reel ${c + 1}: ${what}${win}`
+      );
+    }
+  }
+}
+
+/** Arrow keys move focus between cells (one tab stop for the whole grid). */
+function onGridKeyDown(e: KeyboardEvent): void {
+  const moves: Record<string, [number, number]> = {
+    ArrowUp: [-1, 0],
+    ArrowDown: [1, 0],
+    ArrowLeft: [0, -1],
+    ArrowRight: [0, 1],
+  };
+  const from = (e.target as HTMLElement).closest<HTMLDivElement>(".reel");
+  if (!from) return;
+  let r = cellEls.findIndex((row) => row.includes(from));
+  let c = cellEls[r].indexOf(from);
+  if (e.key in moves) {
+    r = Math.min(ROWS - 1, Math.max(0, r + moves[e.key][0]));
+    c = Math.min(COLS - 1, Math.max(0, c + moves[e.key][1]));
+  } else if (e.key === "Home") c = 0;
+  else if (e.key === "End") c = COLS - 1;
+  else return;
+  e.preventDefault();
+  from.tabIndex = -1;
+  cellEls[r][c].tabIndex = 0;
+  cellEls[r][c].focus();
+}
+
+/** Read a message out through the live region. */
+function announce(text: string): void {
+  announcer.textContent = "";
+  // set on the next frame so a repeated message is read again
+  requestAnimationFrame(() => {
+    announcer.textContent = text;
+  });
+}
+
+/** Spoken grid: one sentence per row, wilds with their multiplier. */
+function speakGrid(grid: SymbolId[][], wilds?: number[][]): string {
+  return grid
+    .map(
+      (row, r) =>
+        `Row ${r + 1}: ${row
+          .map((id, c) =>
+            wilds && wilds[r][c] > 0 ? `wild ${wilds[r][c]}x` : symbolName(id)
+          )
+          .join(", ")}.`
+    )
+    .join(" ");
+}
+
+/** Spoken wins: each line (or ways win) and scatter pay with its amount, then the total. */
+function speakWins(
+  lineWins: LineWin[],
+  winCents: number,
+  scatterWins: ScatterWin[] = []
+): string {
+  if (lineWins.length === 0 && scatterWins.length === 0) return "No win.";
+  return [
+    ...lineWins.map(
+      (w) =>
+        `${w.ways !== undefined ? `${w.ways} ways` : `Line ${w.paylineId}`}: ${
+          w.length
+        } ${symbolName(w.symbol)} pays ${money.formatDisplay(w.winCents)}.`
+    ),
+    ...scatterWins.map(
+      (w) =>
+        `Scatter: ${w.count} ${symbolName(w.symbol)} pays ${money.formatDisplay(
+          w.winCents
+        )}.`
+    ),
+    `Total win ${money.formatDisplay(winCents)}.`,
+  ].join(" ");
+}
+
+/** A base spin: grid, wins (every cascade step), jackpots and any free spins. */
+function speakSpin(
+  spin: Pick<SpinResult, "grid" | "lineWins" | "cascade" | "freeSpinsAwarded"> &
+    Partial<Pick<SpinResult, "scatterWins">>,
+  winCents: number,
+  jackpotWins: JackpotWin[]
+): string {
+  const wins = spin.cascade
+    ? spin.cascade.flatMap((step) => step.lineWins)
+    : spin.lineWins;
+  const parts = [
+    speakGrid(spin.grid),
+    speakWins(wins, winCents, spin.scatterWins),
+  ];
+  for (const j of jackpotWins)
+    parts.push(`${j.name} jackpot: ${money.formatDisplay(j.winCents)}.`);
+  if (spin.freeSpinsAwarded > 0)
+    parts.push(`${spin.freeSpinsAwarded} free spins awarded.`);
+  return parts.join(" ");
+}
+
+/** One free spin and where the bonus stands. */
+function speakBonusSpin(spin: BonusSpinResult): string {
+  const parts = [
+    `Free spin ${spin.spinNumber} of ${spin.totalSpins}.`,
+    speakGrid(spin.grid, spin.wilds),
+    speakWins(spin.lineWins, spin.winCents, spin.scatterWins),
+  ];
+  if (spin.retriggerSpins > 0)
+    parts.push(`${spin.retriggerSpins} extra free spins.`);
+  parts.push(`Bonus total ${money.formatDisplay(spin.bonusTotalCents)}.`);
+  return parts.join(" ");
+}
 
 /* ---------------- UI sync ---------------- */
 function updateUIFromWallet(): void {
   const w = machine.getWallet();
-  balanceEl.textContent = formatEuro(w.balanceCents);
+  balanceEl.textContent = money.formatDisplay(w.balanceCents);
   Array.from(betEl.options).forEach((o) => {
+    o.textContent = money.formatDisplay(Number(o.value));
     o.selected = Number(o.value) === w.betCents;
   });
-  saveWallet({ balanceCents: w.balanceCents });
+  renderStats();
+  persist();
 }
 
 /** Base game: clear glow + lines + any wild badges. */
 function clearAllEffects(): void {
+  stopWinCycle();
   for (let r = 0; r < ROWS; r++) {
     for (let c = 0; c < COLS; c++) {
       cellEls[r][c].classList.remove("win");
       removeWildBadge(r, c);
-      if (!emojiEls[r][c].textContent || emojiEls[r][c].textContent === "") {
-        emojiEls[r][c].textContent = symbolToEmoji["CHERRY"];
+      const el = emojiEls[r][c];
+      if (!el.textContent && !el.style.backgroundImage) {
+        renderSymbol(el, config.symbols[0].id);
+        cellSymbols[r][c] = config.symbols[0].id;
       }
     }
   }
   overlaySvg.replaceChildren();
+  labelCells();
 }
 
 /** Bonus spin: clear glow + lines ONLY. Keep wild badges in place. */
 function clearForBonusSpin(): void {
+  stopWinCycle();
   for (let r = 0; r < ROWS; r++) {
     for (let c = 0; c < COLS; c++) {
       cellEls[r][c].classList.remove("win");
     }
   }
   overlaySvg.replaceChildren();
+  labelCells();
 }
 
+/** Lock the controls while a round plays; autoplay keeps them locked between rounds. */
 function setDisabled(disabled: boolean): void {
-  spinBtn.disabled = disabled;
-  addFundsBtn.disabled = disabled;
-  betEl.disabled = disabled;
+  const locked = disabled || autoplay !== null;
+  spinBtn.disabled = locked;
+  addFundsBtn.disabled = locked;
+  lobbyBtn.disabled = locked;
+  betEl.disabled = locked;
+  anteEl.disabled = locked;
+  buySpinsEl.disabled = locked;
+  buyBtn.disabled = locked;
+  historyClearBtn.disabled = locked;
+  statsResetBtn.disabled = locked;
+  fairClientSetBtn.disabled = locked;
+  fairRotateBtn.disabled = locked;
+  autoplayFields.disabled = locked;
+  rgFields.disabled = locked;
+  historyList.querySelectorAll("button").forEach((b) => (b.disabled = locked));
+  // doubles as the stop button while autoplay runs
+  autoplayBtn.disabled = disabled && autoplay === null;
 }
 
 /* ---------------- Wild badges ---------------- */
@@ -166,72 +771,338 @@ function getCellCenter(r: number, c: number): { x: number; y: number } {
   };
 }
 
-function showWins(lineWins: LineWin[]): void {
+/** Stroke dash per win line, in win order ("" = solid). */
+const LINE_DASHES = ["", "18 10", "4 10", "18 8 4 8", "30 12"];
+
+/** A win drawn on the grid: a line (or ways win), or a scatter pay. */
+type ShownWin = LineWin | ScatterWin;
+
+/** What stays up after a base spin: cascades already showed their line wins step by step. */
+function finalWins(
+  spin: Pick<SpinResult, "lineWins" | "cascade"> &
+    Partial<Pick<SpinResult, "scatterWins">>
+): ShownWin[] {
+  const scatterWins = spin.scatterWins ?? [];
+  return spin.cascade ? scatterWins : [...spin.lineWins, ...scatterWins];
+}
+
+/** Draw every win, or only `wins[only]` (keeping its dash) while cycling. */
+function showWins(wins: ShownWin[], only?: number): void {
   const rect = slotStage.getBoundingClientRect();
   overlaySvg.setAttribute("width", String(rect.width));
   overlaySvg.setAttribute("height", String(rect.height));
   overlaySvg.setAttribute("viewBox", `0 0 ${rect.width} ${rect.height}`);
   overlaySvg.replaceChildren();
+  for (const row of cellEls)
+    for (const cell of row) cell.classList.remove("win");
+
+  wins.forEach((w, i) => {
+    if (only !== undefined && i !== only) return;
+    // glow every matched cell (any payline shape, all ways cells, every scatter)
+    for (const [r, c] of w.cells) cellEls[r][c].classList.add("win");
+
+    // scatters pay anywhere and ways wins have several cells per reel: glow only, no line
+    if (!("paylineId" in w) || w.ways !== undefined) return;
+
+    const centers = w.cells.map(([r, c]) => getCellCenter(r, c));
+    const line = document.createElementNS(
+      "http://www.w3.org/2000/svg",
+      "polyline"
+    );
+    line.setAttribute("points", centers.map((p) => `${p.x},${p.y}`).join(" "));
+    line.setAttribute("class", "win-line");
+    line.setAttribute("stroke", symbolColor(w.symbol));
+    // colour alone doesn't tell overlapping lines apart: vary the dash too
+    const dash = LINE_DASHES[i % LINE_DASHES.length];
+    if (dash) line.setAttribute("stroke-dasharray", dash);
+    overlaySvg.appendChild(line);
 
-  for (const w of lineWins) {
-    // glow all cells in the segment (works for diagonals too)
-    const rStep = Math.sign(w.endRow - w.startRow);
-    const cStep = Math.sign(w.endCol - w.startCol);
-    let r = w.startRow,
-      c = w.startCol;
-    for (let k = 0; k < w.length; k++) {
-      cellEls[r][c].classList.add("win");
-      r += rStep;
-      c += cStep;
-    }
+    // payline id where the line starts
+    const label = document.createElementNS(
+      "http://www.w3.org/2000/svg",
+      "text"
+    );
+    label.setAttribute("x", String(centers[0].x));
+    label.setAttribute("y", String(centers[0].y));
+    label.setAttribute("class", "win-line-label");
+    label.textContent = w.paylineId;
+    overlaySvg.appendChild(label);
+  });
+  labelCells();
+}
 
-    const start = getCellCenter(w.startRow, w.startCol);
-    const end = getCellCenter(w.endRow, w.endCol);
+/* ---------------- Win presentation ---------------- */
 
-    const line = document.createElementNS("http://www.w3.org/2000/svg", "line");
-    line.setAttribute("x1", String(start.x));
-    line.setAttribute("y1", String(start.y));
-    line.setAttribute("x2", String(end.x));
-    line.setAttribute("y2", String(end.y));
-    line.setAttribute("class", "win-line");
-    line.setAttribute("stroke", symbolColor[w.symbol]);
-    overlaySvg.appendChild(line);
+/** The line-by-line cycle running under the grid; the next spin stops it. */
+let winCycle: { stop: () => void } | null = null;
+
+function stopWinCycle(): void {
+  winCycle?.stop();
+  winCycle = null;
+  winLabelEl.hidden = true;
+}
+
+/** "Line 3 · 4× 🍒 · wild x6 · €2.40", or "Scatter · 3× 🔔 · €5.00" */
+function describeWin(w: ShownWin): string {
+  const def = machine.getSymbol(w.symbol);
+  if (!("paylineId" in w))
+    return [
+      "Scatter",
+      `${w.count}× ${def?.emoji || w.symbol}`,
+      money.formatDisplay(w.winCents),
+    ].join(" · ");
+  return [
+    w.ways !== undefined ? `${w.ways} ways` : `Line ${w.paylineId}`,
+    `${w.length}× ${def?.emoji || w.symbol}`,
+    ...(w.wildMultiplier ? [`wild x${w.wildMultiplier}`] : []),
+    money.formatDisplay(w.winCents),
+  ].join(" · ");
+}
+
+/**
+ * After showing all wins for a step, highlight one at a time with its label.
+ * Resolves after the first pass; with `repeat` it keeps cycling until
+ * stopWinCycle (the next spin).
+ */
+function cycleWins(
+  wins: ShownWin[],
+  repeat: boolean,
+  stepMs = 900,
+  signal?: AbortSignal
+): Promise<void> {
+  stopWinCycle();
+  if (wins.length === 0 || signal?.aborted) return Promise.resolve();
+  stepMs = pace(stepMs);
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const cycle = {
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+  winCycle = cycle;
+  return new Promise((resolve) => {
+    let i = 0;
+    const step = () => {
+      if (stopped) return resolve();
+      if (i === wins.length) {
+        resolve(); // first pass done
+        if (!repeat || wins.length === 1) {
+          if (winCycle === cycle) winCycle = null;
+          return;
+        }
+        i = 0;
+      }
+      showWins(wins, i);
+      winLabelEl.textContent = describeWin(wins[i]);
+      winLabelEl.hidden = false;
+      i++;
+      timer = setTimeout(step, stepMs);
+    };
+    // a slam-stop leaves every win up together
+    signal?.addEventListener("abort", () => {
+      cycle.stop();
+      showWins(wins);
+      winLabelEl.hidden = true;
+      resolve();
+    });
+    // all wins stay up together for one step first
+    timer = setTimeout(step, stepMs);
+  });
+}
+
+/** Count `el` up to `cents`; skip() jumps to the end. */
+function countUp(
+  el: HTMLElement,
+  cents: number,
+  ms: number
+): { done: Promise<void>; skip: () => void } {
+  let skipped = false;
+  const done = new Promise<void>((resolve) => {
+    const t0 = performance.now();
+    const tick = (t: number) => {
+      const p = skipped || ms <= 0 ? 1 : Math.min(1, (t - t0) / ms);
+      const eased = 1 - Math.pow(1 - p, 3);
+      el.textContent = money.formatDisplay(Math.round(cents * eased));
+      if (p < 1) requestAnimationFrame(tick);
+      else resolve();
+    };
+    requestAnimationFrame(tick);
+  });
+  return { done, skip: () => (skipped = true) };
+}
+
+/** Full-screen count-up for a tier win; a click or key skips to the total, another closes it. */
+async function celebrateWin(tier: WinTier, cents: number): Promise<void> {
+  bigWinTitle.textContent = `${tier.name.toUpperCase()} WIN`;
+  bigWinOverlay.hidden = false;
+  announce(`${tier.name} win! ${money.formatDisplay(cents)}`);
+  const count = countUp(
+    bigWinAmount,
+    cents,
+    reducedMotion() ? 0 : pace(tier.countUpMs ?? 3000)
+  );
+  const nextInput = () =>
+    new Promise<void>((resolve) => {
+      // capture the key first so it doesn't also reach the game's shortcuts
+      const done = (e: Event) => {
+        e.preventDefault();
+        e.stopPropagation();
+        bigWinOverlay.removeEventListener("click", done);
+        window.removeEventListener("keydown", done, true);
+        resolve();
+      };
+      bigWinOverlay.addEventListener("click", done);
+      window.addEventListener("keydown", done, true);
+    });
+
+  await Promise.race([count.done, nextInput()]);
+  count.skip();
+  await count.done;
+  // hold the total for a moment (autoplay and skips don't wait for a click)
+  await Promise.race([wait(1500), nextInput()]);
+  bigWinOverlay.hidden = true;
+}
+
+/* ---------------- Timing: turbo & slam-stop ---------------- */
+
+/** Turbo plays every animation and pause at this share of its length. */
+const TURBO_PACE = 0.25;
+
+function pace(ms: number): number {
+  return settings.turbo ? Math.round(ms * TURBO_PACE) : ms;
+}
+
+/** Pause for `ms` (shortened in turbo); an aborted `signal` ends it at once. */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, pace(ms));
+    signal?.addEventListener("abort", done);
+  });
+}
+
+/** Aborted by Space, the spin button or a click on the reels while a spin animates. */
+let slam: AbortController | null = null;
+
+/** Play one spin's presentation with slam-stop available; the spin button doubles as the stop. */
+async function withSlamStop(
+  present: (signal: AbortSignal) => Promise<void>
+): Promise<void> {
+  slam = new AbortController();
+  if (!autoplay) spinBtn.disabled = false;
+  try {
+    await present(slam.signal);
+  } finally {
+    slam = null;
+    spinBtn.disabled = true; // still inside the round; setDisabled(false) frees it
   }
 }
 
+function onTurboChange(): void {
+  settings.turbo = turboEl.checked;
+  persist();
+}
+
 /* ---------------- Animation: column-by-column ---------------- */
 
+/** Reel-strip mode: the strips being spun and where each reel stops. */
+interface StripSpin {
+  strips: SymbolId[][];
+  stops: number[];
+}
+
+function stripSpin(
+  stops: number[] | undefined,
+  forBonus: boolean
+): StripSpin | undefined {
+  const strips = machine.getReelStrips(forBonus);
+  return strips && stops ? { strips, stops } : undefined;
+}
+
+/** Symbol shown at row r of a spinning column: scrolls the real strip when there is one. */
+function spinningSymbol(
+  col: number,
+  r: number,
+  progress: number,
+  ids: SymbolId[],
+  strip?: StripSpin
+): SymbolId {
+  if (!strip) return ids[Math.floor(Math.random() * ids.length)];
+  const reel = strip.strips[col];
+  // travel three strip lengths, easing out onto the stop
+  const eased = 1 - Math.pow(1 - progress, 3);
+  const offset = Math.round(reel.length * 3 * (1 - eased));
+  return reel[(strip.stops[col] + offset + r) % reel.length];
+}
+
+/** Spin the columns and land them left to right on `grid`; aborting `signal` lands the rest at once. */
 async function animateColumnsThenResolve(
   grid: SymbolId[][],
   spinMs = 1200,
   delayBetween = 140,
-  wilds?: number[][]
+  wilds?: number[][],
+  strip?: StripSpin,
+  signal?: AbortSignal
 ): Promise<void> {
-  const emojis = Object.values(symbolToEmoji);
+  const ids = config.symbols.map((s) => s.id);
+  spinMs = pace(spinMs);
+
+  if (reducedMotion()) {
+    // quick reveal: no flickering symbols, just a short fade
+    let scatters = 0;
+    for (let col = 0; col < COLS; col++) {
+      settleColumn(grid, col, wilds);
+      scatters = scatterStings(grid, col, wilds, scatters);
+    }
+    sound.reelStop(0);
+    labelCells();
+    await reelsRoot.animate([{ opacity: 0.4 }, { opacity: 1 }], {
+      duration: 150,
+    }).finished;
+    return;
+  }
 
+  let scatters = 0;
+  sound.spinStart();
   for (let col = 0; col < COLS; col++) {
+    if (signal?.aborted) {
+      // slam-stop: every remaining column lands on the decided grid together
+      for (let c = col; c < COLS; c++) {
+        settleColumn(grid, c, wilds);
+        scatters = scatterStings(grid, c, wilds, scatters);
+      }
+      sound.reelStop(col);
+      break;
+    }
     const t0 = performance.now();
 
     await new Promise<void>((resolve) => {
       const tick = (t: number) => {
         const elapsed = t - t0;
 
-        if (elapsed < spinMs) {
+        if (elapsed < spinMs && !signal?.aborted) {
           for (let r = 0; r < ROWS; r++) {
             const isWild = !!wilds && (wilds[r][col] | 0) > 0;
             // show nothing in the emoji span for wild cells (badge stays visible)
-            emojiEls[r][col].textContent = isWild
-              ? ""
-              : emojis[Math.floor(Math.random() * emojis.length)];
+            if (isWild) clearSymbol(emojiEls[r][col]);
+            else
+              renderSymbol(
+                emojiEls[r][col],
+                spinningSymbol(col, r, elapsed / spinMs, ids, strip)
+              );
           }
           requestAnimationFrame(tick);
         } else {
-          for (let r = 0; r < ROWS; r++) {
-            const isWild = !!wilds && (wilds[r][col] | 0) > 0;
-            emojiEls[r][col].textContent = isWild
-              ? ""
-              : symbolToEmoji[grid[r][col]];
-          }
+          settleColumn(grid, col, wilds);
+          sound.reelStop(col);
+          scatters = scatterStings(grid, col, wilds, scatters);
           resolve();
         }
       };
@@ -244,27 +1115,211 @@ async function animateColumnsThenResolve(
           { transform: "translateY(-6px)" },
           { transform: "translateY(0)" },
         ],
-        { duration: 150, easing: "ease-out" }
+        { duration: pace(150), easing: "ease-out" }
       );
     }
 
-    if (col < COLS - 1) {
-      await new Promise((res) => setTimeout(res, delayBetween));
+    if (col < COLS - 1) await wait(delayBetween, signal);
+  }
+  sound.spinStop();
+  labelCells();
+}
+
+/** A sting for each scatter in a settled column; returns the spin's scatter count so far. */
+function scatterStings(
+  grid: SymbolId[][],
+  col: number,
+  wilds: number[][] | undefined,
+  seen: number
+): number {
+  for (let r = 0; r < ROWS; r++) {
+    const isWild = !!wilds && (wilds[r][col] | 0) > 0;
+    if (
+      (!isWild || machine.getScatterRules().onWilds) &&
+      machine.getSymbol(grid[r][col])?.role === "scatter"
+    )
+      sound.scatter(seen++);
+  }
+  return seen;
+}
+
+/** Whether a wild cell still shows its symbol: only scatters, where they count under wilds. */
+function showsUnderWild(id: SymbolId): boolean {
+  return (
+    !!machine.getScatterRules().onWilds &&
+    machine.getSymbol(id)?.role === "scatter"
+  );
+}
+
+/** Show a column's final symbols; wild cells show only their badge (or a scatter that counts there). */
+function settleColumn(
+  grid: SymbolId[][],
+  col: number,
+  wilds?: number[][]
+): void {
+  for (let r = 0; r < ROWS; r++) {
+    const isWild = !!wilds && (wilds[r][col] | 0) > 0;
+    if (isWild && !showsUnderWild(grid[r][col])) clearSymbol(emojiEls[r][col]);
+    else renderSymbol(emojiEls[r][col], grid[r][col]);
+    cellSymbols[r][col] = grid[r][col];
+  }
+}
+
+/* ---------------- Animation: cascades ---------------- */
+
+/** Distance between two rows of cells, in px. */
+function rowPitch(): number {
+  return ROWS > 1
+    ? cellEls[1][0].offsetTop - cellEls[0][0].offsetTop
+    : cellEls[0][0].offsetHeight;
+}
+
+/** Show the refilled grid, sliding every moved symbol down from where it was (new ones from above). */
+async function dropIn(
+  grid: SymbolId[][],
+  removed: Array<[number, number]>,
+  signal?: AbortSignal
+): Promise<void> {
+  if (reducedMotion() || signal?.aborted) {
+    for (let c = 0; c < COLS; c++) settleColumn(grid, c);
+    labelCells();
+    return;
+  }
+  const pitch = rowPitch();
+  const drops: Promise<unknown>[] = [];
+  for (let c = 0; c < COLS; c++) {
+    const keptRows: number[] = [];
+    for (let r = 0; r < ROWS; r++) {
+      if (!removed.some(([rr, cc]) => rr === r && cc === c)) keptRows.push(r);
+    }
+    const missing = ROWS - keptRows.length;
+    for (let r = 0; r < ROWS; r++) {
+      const el = emojiEls[r][c];
+      el.getAnimations().forEach((a) => a.cancel());
+      renderSymbol(el, grid[r][c]);
+      cellSymbols[r][c] = grid[r][c];
+      const rows = r < missing ? missing : r - keptRows[r - missing];
+      if (rows === 0) continue;
+      drops.push(
+        el.animate(
+          [
+            { transform: `translateY(${-rows * pitch}px)` },
+            { transform: "translateY(0)" },
+          ],
+          { duration: pace(220 + rows * 60), easing: "ease-in" }
+        ).finished
+      );
     }
   }
+  labelCells();
+  await Promise.all(drops);
+}
+
+/** Cascading spin: show each step's wins, pop the winning symbols, then drop the next grid in. */
+async function presentCascade(
+  steps: CascadeStep[],
+  signal?: AbortSignal
+): Promise<void> {
+  let total = 0;
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    if (step.lineWins.length === 0) break;
+    total += step.winCents;
+    showWins(step.lineWins);
+    sound.win(step.winCents / machine.getWallet().betCents, briefSounds());
+    lastWinEl.textContent =
+      step.multiplier > 1
+        ? `${money.formatDisplay(total)} (x${step.multiplier})`
+        : money.formatDisplay(total);
+    await wait(900, signal);
+    if (step.removed.length === 0) break;
+
+    clearForBonusSpin(); // glow + lines only
+    if (!reducedMotion() && !signal?.aborted)
+      await Promise.all(
+        step.removed.map(
+          ([r, c]) =>
+            emojiEls[r][c].animate(
+              [
+                { transform: "scale(1)", opacity: 1 },
+                { transform: "scale(0.2)", opacity: 0 },
+              ],
+              { duration: pace(250), easing: "ease-in", fill: "forwards" }
+            ).finished
+        )
+      );
+    await dropIn(steps[i + 1].grid, step.removed, signal);
+  }
 }
 
 /* ---------------- Paytable UI ---------------- */
 function renderPaytable(): void {
+  const dir = config.payDirection ?? "ltr";
+  const how =
+    config.evaluation === "ways"
+      ? `${Math.pow(ROWS, Math.min(COLS, 5))} ways`
+      : `${resolvePaylines(config).length} lines`;
+  paytableSummary.textContent = `Paytable (${how}, ${
+    dir === "both" ? "both ways" : dir === "rtl" ? "right→left" : "left→right"
+  })`;
+
   paytableList.innerHTML = "";
-  for (const def of DEFAULT_SYMBOLS) {
+  for (const def of config.symbols) {
     const li = document.createElement("li");
-    const p = DEFAULT_PAYOUT[def.id];
-    li.textContent = `${def.emoji} ${def.id} — 3-in-row: ${p[3]}x, 4: ${p[4]}x, 5: ${p[5]}x`;
+    const p = symbolPays(def);
+    if (p) {
+      // only the run lengths this grid can land
+      const runs = ([3, 4, 5] as const).filter((n) => n <= COLS);
+      li.textContent = `${def.emoji} ${def.id} — ${runs
+        .map((n) => `${n === 3 ? "3-in-row" : n}: ${p[n]}x`)
+        .join(", ")}`;
+    } else if (def.role === "scatter") {
+      li.textContent = `${def.emoji} ${
+        def.id
+      } — scatter, anywhere: ${describeScatterRules()}`;
+    } else {
+      li.textContent = `${def.emoji} ${def.id} — wild: substitutes for any line symbol`;
+    }
     paytableList.appendChild(li);
   }
 }
 
+/** "3: 5 FS · 4: 8 FS · 5+: 2x + 10 FS; in free spins 3+: +2 FS (max 50)" */
+function describeScatterRules(): string {
+  const rules = machine.getScatterRules();
+  const pays = rules.pays ?? {};
+  // every listed count; the highest also covers anything above it
+  const entries = (tables: ScatterTable[], show: (n: number) => string[]) => {
+    const counts = [...new Set(tables.flatMap((t) => Object.keys(t)))]
+      .map(Number)
+      .sort((a, b) => a - b);
+    return counts
+      .map(
+        (n, i) =>
+          `${n}${i === counts.length - 1 ? "+" : ""}: ${show(n).join(" + ")}`
+      )
+      .join(" · ");
+  };
+  const base = entries([pays, rules.triggers], (n) => {
+    const pay = scatterAward(pays, n);
+    const spins = scatterAward(rules.triggers, n);
+    return [
+      ...(pay > 0 ? [`${pay}x`] : []),
+      ...(spins > 0 ? [`${spins} FS`] : []),
+    ];
+  });
+  const retriggers = entries([rules.retriggers], (n) => [
+    `+${scatterAward(rules.retriggers, n)} FS`,
+  ]);
+  const cap =
+    rules.maxTotalFreeSpins !== undefined
+      ? ` (max ${rules.maxTotalFreeSpins})`
+      : "";
+  return `${base || "no pays"}; in free spins ${
+    retriggers || "no retriggers"
+  }${cap}`;
+}
+
 /* ---------------- Bonus helpers ---------------- */
 
 /** Add/remove a temporary element for spotlight. */
@@ -281,6 +1336,8 @@ function animateBadge(r: number, c: number, cls: "pop" | "bump"): void {
     ".wild-badge"
   ) as HTMLDivElement | null;
   if (!badge) return; // badge should already exist from renderWildBadges()
+  if (cls === "pop") sound.wildPop();
+  else sound.wildBump();
   badge.classList.remove("pop", "bump"); // reset any previous animation
   void badge.offsetWidth; // reflow to restart animation
   badge.classList.add(cls);
@@ -295,193 +1352,1228 @@ function renderWildBadges(wilds: number[][]): void {
   }
 }
 
-/** Spawn brand-new x1 wilds in empty cells only (no stacking by landing). */
-function spawnNewWilds(wilds: number[][]): Array<[number, number]> {
-  const out: Array<[number, number]> = [];
-  const chanceToSpawn = 0.7; // 70% of spins spawn
-  const maxNewPerSpin = 2; // up to 2 new wilds
-  if (Math.random() > chanceToSpawn) return out;
+/** Present one free spin: bump grown wilds, pop new ones, spin, draw wins. */
+async function presentBonusSpin(
+  signal: AbortSignal,
+  spin: Pick<
+    BonusSpinResult,
+    | "bumpedWilds"
+    | "newWilds"
+    | "wilds"
+    | "grid"
+    | "stops"
+    | "lineWins"
+    | "scatterWins"
+    | "winCents"
+  >
+): Promise<void> {
+  // 1) Wilds that were in last spin’s wins grew → animate bump
+  for (const [r, c] of spin.bumpedWilds) {
+    setWildBadge(r, c, spin.wilds[r][c]);
+    animateBadge(r, c, "bump");
+  }
 
-  const empty: Array<[number, number]> = [];
-  for (let r = 0; r < ROWS; r++) {
-    for (let c = 0; c < COLS; c++) {
-      if ((wilds[r][c] | 0) === 0) empty.push([r, c]);
-    }
+  // 2) Clear glow/lines (badges stay)
+  clearForBonusSpin();
+
+  // 3) Brand-new wilds → render & POP + spotlight
+  renderWildBadges(spin.wilds);
+  for (const [r, c] of spin.newWilds) {
+    animateBadge(r, c, "pop");
+    flashSpotlight(r, c);
   }
-  if (empty.length === 0) return out;
 
-  // Pick 1 or 2 unique empties
-  const want = Math.min(
-    1 + (Math.random() < 0.4 ? 1 : 0),
-    maxNewPerSpin,
-    empty.length
+  // 4) Spin/settle (slower in bonus), wild cells show no emoji (badge only)
+  await animateColumnsThenResolve(
+    spin.grid,
+    900,
+    200,
+    spin.wilds,
+    stripSpin(spin.stops, true),
+    signal
   );
-  for (let i = empty.length - 1; i > 0; i--) {
-    const j = (Math.random() * (i + 1)) | 0;
-    [empty[i], empty[j]] = [empty[j], empty[i]];
-  }
-  for (let i = 0; i < want; i++) {
-    const [r, c] = empty[i];
-    wilds[r][c] = 1;
-    out.push([r, c]);
-  }
-  return out;
-}
 
-async function runBonusSession(freeSpins: number): Promise<void> {
-  if (freeSpins <= 0) return;
+  // 5) Draw wins, then go through them one by one
+  const wins = [...spin.lineWins, ...spin.scatterWins];
+  showWins(wins);
+  sound.win(spin.winCents / machine.getWallet().betCents, briefSounds());
 
-  setDisabled(true);
+  if (wins.length > 0) await cycleWins(wins, false, 700, signal);
+  else await wait(700, signal);
+}
 
-  const wilds: number[][] = Array.from({ length: ROWS }, () =>
-    Array(COLS).fill(0)
+/** End card: the total counts up (longer and with the tier name for tier wins); clicking the card skips. */
+function showBonusEndCard(bonusTotal: number, betCents: number): void {
+  sound.bonusEnd(briefSounds());
+  announce(`Bonus complete. Total win ${money.formatDisplay(bonusTotal)}.`);
+  const tier = winTierFor(machine.getWinTiers(), bonusTotal, betCents);
+  bonusHud.hidden = true;
+  bonusProgress.textContent = tier
+    ? `Bonus Complete · ${tier.name.toUpperCase()} WIN`
+    : `Bonus Complete`;
+  const count = countUp(
+    bonusTotalEl,
+    bonusTotal,
+    reducedMotion() ? 0 : pace(tier ? tier.countUpMs ?? 3000 : 1200)
   );
+  bonusCloseBtn.hidden = false;
+  bonusOverlay.hidden = false;
+  bonusOverlay.onclick = count.skip;
+  bonusCloseBtn.onclick = () => {
+    count.skip();
+    bonusOverlay.onclick = null;
+    bonusOverlay.hidden = true;
+  };
+}
+
+async function runBonusSession(
+  session: BonusSession,
+  round: RoundRecord
+): Promise<void> {
+  setDisabled(true);
 
   bonusOverlay.hidden = true;
   bonusCloseBtn.hidden = true;
   bonusHud.hidden = false;
 
-  let bonusTotal = 0;
-  const betCents = Number(betEl.value) || 100;
+  activeBonus = { session, round };
+  renderWildBadges(session.getWilds()); // resumed sessions start with wilds
+  sound.bonusStart(briefSounds());
+
+  while (!session.isComplete) {
+    bonusHud.textContent = `FREE SPINS ${session.spinsPlayed + 1} / ${
+      session.totalSpins
+    }`;
+
+    const rngState = fair.draws;
+    const spin = session.nextSpin();
+    recordBonusSpin(round, spin, machine.getWallet().balanceCents, rngState);
+    persist();
+    await withSlamStop((signal) => presentBonusSpin(signal, spin));
+    announce(speakBonusSpin(spin));
+  }
 
-  let prevWinMask: boolean[][] | null = null;
+  // credit once
+  const bonusTotal = session.bonusTotalCents;
+  if (bonusTotal > 0) machine.creditWinnings(bonusTotal);
+  finishRound(round, bonusTotal, machine.getWallet());
+  activeBonus = null;
+  updateUIFromWallet();
 
-  for (let i = 0; i < freeSpins; i++) {
-    bonusHud.textContent = `FREE SPINS ${i + 1} / ${freeSpins}`;
+  // cleanup & end card
+  showBonusEndCard(bonusTotal, session.betCents);
 
-    // 1) Increment ONLY wilds that were in last spin’s wins → animate bump
-    if (prevWinMask) {
-      const incCells = incrementWildsByMask(wilds, prevWinMask /*, cap */);
-      renderWildBadges(wilds);
-      for (const [r, c] of incCells) {
-        animateBadge(r, c, "bump");
+  setDisabled(false);
+}
+
+/* ---------------- Session stats ---------------- */
+
+function renderStats(): void {
+  const s = stats.getSummary();
+  const pct = (x: number | null) =>
+    x === null ? "–" : `${(x * 100).toFixed(1)}%`;
+  const rows: Array<[string, string]> = [
+    ["Rounds played", String(s.rounds)],
+    ["Wagered", money.formatDisplay(s.wageredCents)],
+    ["Won", money.formatDisplay(s.wonCents)],
+    ["RTP", pct(s.rtp)],
+    ["Hit rate", pct(s.hitRate)],
+    ["Biggest win", money.formatDisplay(s.biggestWinCents)],
+    ["Free spins triggered", String(s.freeSpinTriggers)],
+    [
+      "Average bonus",
+      s.averageBonusCents === null
+        ? "–"
+        : money.formatDisplay(Math.round(s.averageBonusCents)),
+    ],
+  ];
+  statsList.replaceChildren(
+    ...rows.flatMap(([term, value]) => {
+      const dt = document.createElement("dt");
+      dt.textContent = term;
+      const dd = document.createElement("dd");
+      dd.textContent = value;
+      return [dt, dd];
+    })
+  );
+  renderBalanceChart();
+}
+
+/** Balance after every round as a line; rounds with free spins get a dot. */
+function renderBalanceChart(): void {
+  const W = 300;
+  const H = 100;
+  const PAD = 6;
+  const points = stats.getBalancePoints();
+  const svg = (tag: string) =>
+    document.createElementNS("http://www.w3.org/2000/svg", tag);
+  statsChart.replaceChildren();
+  if (points.length < 2) return;
+
+  const values = points.map((p) => p.balanceCents);
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min || 1;
+  const x = (i: number) => PAD + (i / (points.length - 1)) * (W - 2 * PAD);
+  const y = (cents: number) => H - PAD - ((cents - min) / span) * (H - 2 * PAD);
+
+  // the session's opening balance, for reference
+  const start = svg("line");
+  start.setAttribute("class", "stats-start");
+  start.setAttribute("x1", String(PAD));
+  start.setAttribute("x2", String(W - PAD));
+  start.setAttribute("y1", String(y(values[0])));
+  start.setAttribute("y2", String(y(values[0])));
+  const line = svg("polyline");
+  line.setAttribute("class", "stats-line");
+  line.setAttribute(
+    "points",
+    points.map((p, i) => `${x(i)},${y(p.balanceCents)}`).join(" ")
+  );
+  statsChart.append(start, line);
+  points.forEach((p, i) => {
+    if (!p.bonus) return;
+    const dot = svg("circle");
+    dot.setAttribute("class", "stats-bonus");
+    dot.setAttribute("cx", String(x(i)));
+    dot.setAttribute("cy", String(y(p.balanceCents)));
+    dot.setAttribute("r", "3");
+    const title = svg("title");
+    title.textContent = `Free spins · ${money.format(p.balanceCents)}`;
+    dot.append(title);
+    statsChart.append(dot);
+  });
+}
+
+function onStatsReset(): void {
+  if (!confirm("Start a new stats session?")) return;
+  stats.reset(machine.getWallet().balanceCents);
+  renderStats();
+  persist();
+}
+
+function onStatsExport(): void {
+  // plain major-unit numbers, so spreadsheets can sum the columns
+  const csv = stats.toCsv((cents) => money.toInput(cents));
+  const blob = new Blob([csv], { type: "text/csv" });
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = `slot-stats-${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  URL.revokeObjectURL(a.href);
+}
+
+/* ---------------- History ---------------- */
+
+/** Show a recorded round again exactly as it played; the wallet is untouched. */
+async function replayRound(round: RoundRecord): Promise<void> {
+  setDisabled(true);
+  try {
+    bonusOverlay.hidden = true;
+    clearAllEffects();
+    for (const spin of round.spins) {
+      if (spin.kind === "base") {
+        await withSlamStop(async (signal) => {
+          await animateColumnsThenResolve(
+            spin.grid,
+            1200,
+            140,
+            undefined,
+            stripSpin(spin.stops, false),
+            signal
+          );
+          if (spin.cascade) await presentCascade(spin.cascade, signal);
+        });
+        const wins = finalWins(spin);
+        if (!spin.cascade || wins.length > 0) showWins(wins);
+        lastWinEl.textContent = money.formatDisplay(spin.winCents);
+        announce(
+          `Replay. ${speakSpin(spin, spin.winCents, spin.jackpotWins ?? [])}`
+        );
+        for (const win of spin.jackpotWins ?? []) {
+          await wait(900);
+          lastWinEl.textContent = `${win.name} jackpot ${money.formatDisplay(
+            win.winCents
+          )}`;
+        }
+        for (const step of spin.gamble ?? []) {
+          await wait(900);
+          lastWinEl.textContent = describeGambleStep(step);
+        }
+        if (spin.freeSpinsAwarded > 0) await wait(600);
+      } else {
+        bonusHud.hidden = false;
+        bonusHud.textContent = `REPLAY · FREE SPINS ${spin.spinNumber} / ${spin.totalSpins}`;
+        await withSlamStop((signal) =>
+          presentBonusSpin(signal, {
+            ...spin,
+            wilds: spin.wilds ?? [],
+            scatterWins: spin.scatterWins ?? [],
+          })
+        );
+        announce(
+          `Replay, free spin ${spin.spinNumber} of ${
+            spin.totalSpins
+          }. ${speakGrid(spin.grid, spin.wilds ?? undefined)} ${speakWins(
+            spin.lineWins,
+            spin.winCents,
+            spin.scatterWins
+          )}`
+        );
       }
     }
+    const bonusSpins = round.spins.filter((s) => s.kind === "bonus");
+    if (bonusSpins.length > 0)
+      showBonusEndCard(
+        bonusSpins.reduce((acc, s) => acc + s.winCents, 0),
+        round.betCents
+      );
+  } finally {
+    setDisabled(false);
+  }
+}
 
-    // 2) Clear glow/lines (badges stay)
-    clearForBonusSpin();
+function describeRound(round: RoundRecord): string {
+  const time = new Date(round.startedAt).toLocaleTimeString();
+  const base = round.spins[0]?.kind === "base" ? round.spins[0] : null;
+  const fs =
+    round.mode?.type === "buy"
+      ? ` · bought ${round.mode.spins} FS for ${money.format(
+          round.stakeCents ?? 0
+        )}`
+      : base && base.freeSpinsAwarded > 0
+      ? ` · ${base.freeSpinsAwarded} FS`
+      : "";
+  const ante = round.mode?.type === "ante" ? " + ante" : "";
+  const jackpots = (base?.jackpotWins ?? [])
+    .map((j) => ` · ${j.name} jackpot`)
+    .join("");
+  const nonce = round.fair ? ` · nonce ${round.fair.nonce}` : "";
+  return `${time} · bet ${money.format(
+    round.betCents
+  )}${ante} · win ${money.format(
+    round.totalWinCents
+  )}${jackpots}${fs}${nonce} · ${money.format(
+    round.balanceBeforeCents
+  )} → ${money.format(round.balanceAfterCents)}`;
+}
 
-    // 3) Spawn brand-new wilds in empty cells → render & POP + spotlight
-    const newWilds = spawnNewWilds(wilds);
-    renderWildBadges(wilds);
-    for (const [r, c] of newWilds) {
-      animateBadge(r, c, "pop");
-      flashSpotlight(r, c);
-    }
+async function renderHistory(): Promise<void> {
+  const rounds = await loadRounds(50);
+  historyList.replaceChildren(
+    ...rounds.map((round) => {
+      const li = document.createElement("li");
+      const label = document.createElement("span");
+      label.textContent = describeRound(round);
+
+      const check = document.createElement("span");
+      check.className = "history-check";
+
+      // the shared wallet lists every game's rounds; only this game's grid can replay them
+      if (round.game !== gameName) {
+        check.textContent = `in ${
+          gameForRecords(round.game)?.name ?? round.game
+        }`;
+        li.append(label, check);
+        return li;
+      }
 
-    // 4) Spin/settle (slower in bonus), wild cells show no emoji (badge only)
+      const replay = document.createElement("button");
+      replay.className = "btn small";
+      replay.textContent = "Replay";
+      replay.disabled = spinBtn.disabled;
+      replay.addEventListener("click", () => {
+        // re-derive the round from its RNG state before showing it
+        const seed = round.fair && fair.findRevealed(round.fair.serverSeedHash);
+        const ok = verifyRound(config, round, seed);
+        check.textContent =
+          ok === null ? "seed not revealed" : ok ? "✓" : "mismatch";
+        replayRound(round).catch((err) =>
+          alert(err instanceof Error ? err.message : "Replay failed")
+        );
+      });
+
+      li.append(label, check, replay);
+      return li;
+    })
+  );
+}
 
-    const grid = machine.generateGridForBonus(wilds);
-    await animateColumnsThenResolve(grid, 900, 200, wilds);
+/* ---------------- Provably fair ---------------- */
+
+function renderFairness(): void {
+  fairHashEl.textContent = fair.serverSeedHash;
+  fairNonceEl.textContent = String(fair.nextNonce);
+  if (document.activeElement !== fairClientInput)
+    fairClientInput.value = fair.currentClientSeed;
+
+  fairRevealedList.replaceChildren(
+    ...fair.getRevealed().map((r) => {
+      const li = document.createElement("li");
+      const text = document.createElement("code");
+      text.textContent = `${r.serverSeed} (${r.lastNonce} rounds)`;
+      const verify = document.createElement("button");
+      verify.className = "btn small";
+      verify.textContent = "Verify";
+      verify.disabled = r.lastNonce === 0;
+      verify.addEventListener("click", () =>
+        openVerify(r.serverSeed, r.clientSeed, r.lastNonce - 1)
+      );
+      li.append(text, verify);
+      return li;
+    })
+  );
+}
+
+function onClientSeedSet(): void {
+  try {
+    fair.setClientSeed(fairClientInput.value);
+    saveFairState(fair.getState());
+  } catch (err) {
+    alert(err instanceof Error ? err.message : "Invalid client seed");
+  }
+  fairClientInput.blur();
+  renderFairness();
+}
 
-    // 5) Score with wild overlay; draw wins; accumulate
-    const scored = machine.scoreGrid(grid, betCents, wilds, true);
-    showWins(scored.lineWins);
-    bonusTotal += scored.totalWinCents;
+function onRotate(): void {
+  fair.rotate();
+  saveFairState(fair.getState());
+  renderFairness();
+}
 
-    // 6) Prepare win mask for next spin’s increment
-    prevWinMask = buildWinMask(scored.lineWins);
+function openVerify(serverSeed = "", clientSeed = "", nonce = 0): void {
+  verifyServerInput.value = serverSeed;
+  verifyClientInput.value = clientSeed || fair.currentClientSeed;
+  verifyNonceInput.value = String(nonce);
+  verifyBetInput.value = String(machine.getWallet().betCents);
+  verifyModeInput.value = "spin";
+  verifyOutput.textContent = "";
+  verifyOverlay.hidden = false;
+}
 
-    await new Promise((res) => setTimeout(res, 700));
+function describeWins(
+  lineWins: LineWin[],
+  scatterWins: ScatterWin[] = []
+): string[] {
+  return [
+    ...lineWins.map(
+      (w) =>
+        `  ${w.paylineId} ${w.direction}: ${w.length}× ${w.symbol}${
+          w.ways !== undefined ? ` (${w.ways} ways)` : ""
+        } → ${money.format(w.winCents)}`
+    ),
+    ...scatterWins.map(
+      (w) => `  scatter: ${w.count}× ${w.symbol} → ${money.format(w.winCents)}`
+    ),
+  ];
+}
 
-    if (scored.bonusRetriggerSpins && scored.bonusRetriggerSpins > 0) {
-      freeSpins += scored.bonusRetriggerSpins; // +2 spins per retrigger
-      // Optional: show a small HUD flash “+2 SPINS!”
+function formatGrid(grid: SymbolId[][], wilds?: number[][]): string[] {
+  return grid.map((row, r) =>
+    row
+      .map((id, c) =>
+        wilds && wilds[r][c] > 0
+          ? `W${wilds[r][c]}x`
+          : machine.getSymbol(id)?.emoji || id
+      )
+      .join(" ")
+  );
+}
+
+/** Regenerate the round from the entered seeds through SlotMachine and print it. */
+function onVerifySubmit(e: SubmitEvent): void {
+  e.preventDefault();
+  try {
+    const serverSeed = verifyServerInput.value.trim();
+    const betCents = Number(verifyBetInput.value);
+    if (!Number.isInteger(betCents) || betCents <= 0)
+      throw new Error("Bet must be a positive integer (cents)");
+    const [type, spins] = verifyModeInput.value.split(":");
+    const mode = (
+      type === "buy" ? { type, spins: Number(spins) } : { type }
+    ) as RoundMode;
+    const played = regenerateRound(
+      config,
+      serverSeed,
+      verifyClientInput.value.trim(),
+      Number(verifyNonceInput.value),
+      betCents,
+      mode
+    );
+
+    const lines = [`Server seed hash: ${sha256Hex(serverSeed)}`, ``];
+    const base = played.result;
+    if (base) {
+      const steps = base.cascade ?? [{ ...base, multiplier: 1 }];
+      steps.forEach((step, i) => {
+        if (i > 0) lines.push(``, `Cascade ${i + 1} (x${step.multiplier}):`);
+        lines.push(...formatGrid(step.grid), ...describeWins(step.lineWins));
+      });
+      lines.push(
+        ...describeWins([], base.scatterWins),
+        `Base win: ${money.format(base.totalWinCents)}`
+      );
+      if (base.freeSpinsAwarded > 0)
+        lines.push(`Free spins awarded: ${base.freeSpinsAwarded}`);
+    } else if (mode.type === "buy") {
+      lines.push(`Bought free spins: ${mode.spins}`);
     }
+    if (played.bonusSpins.length > 0) {
+      for (const spin of played.bonusSpins) {
+        lines.push(
+          ``,
+          `Free spin ${spin.spinNumber} / ${spin.totalSpins}:`,
+          ...formatGrid(spin.grid, spin.wilds),
+          ...describeWins(spin.lineWins, spin.scatterWins),
+          `  win ${money.format(spin.winCents)}`
+        );
+      }
+      lines.push(``, `Bonus total: ${money.format(played.bonusTotalCents)}`);
+    }
+    lines.push(`Total payout: ${money.format(played.totalWinCents)}`);
+    verifyOutput.textContent = lines.join("\n");
+  } catch (err) {
+    verifyOutput.textContent =
+      err instanceof Error ? err.message : "Could not verify round";
   }
+}
 
-  // credit once
-  machine.addFunds(bonusTotal);
-  updateUIFromWallet();
+/* ---------------- Responsible gaming ---------------- */
 
-  // cleanup & end card
-  bonusHud.hidden = true;
-  bonusProgress.textContent = `Bonus Complete`;
-  bonusTotalEl.textContent = formatEuro(bonusTotal);
-  bonusCloseBtn.hidden = false;
-  bonusOverlay.hidden = false;
-  bonusCloseBtn.onclick = () => {
-    bonusOverlay.hidden = true;
+function minutesOrNull(input: HTMLInputElement): number | null {
+  const n = Math.floor(Number(input.value));
+  return input.value.trim() !== "" && n > 0 ? n : null;
+}
+
+function describeLimits(l: RgLimits): string {
+  const amount = (c: number | null) => (c === null ? "none" : money.format(c));
+  const mins = (m: number | null) => (m === null ? "none" : `${m} min`);
+  return `deposits ${amount(l.deposit.daily)}/day, ${amount(
+    l.deposit.weekly
+  )}/week, ${amount(l.deposit.monthly)}/month; session ${mins(
+    l.sessionMinutes
+  )}, loss ${amount(l.sessionLossCents)}; reality check ${mins(
+    l.realityCheckMinutes
+  )}`;
+}
+
+/** Show the limits in force (not pending ones) in the form. */
+function fillLimitsForm(): void {
+  const limits = rg.getLimits();
+  for (const period of Object.keys(rgDepositEls) as DepositPeriod[]) {
+    rgDepositEls[period].value = money.toInput(limits.deposit[period]);
+  }
+  rgSessionTimeEl.value = limits.sessionMinutes?.toString() ?? "";
+  rgSessionLossEl.value = money.toInput(limits.sessionLossCents);
+  rgRealityEl.value = limits.realityCheckMinutes?.toString() ?? "";
+}
+
+function renderResponsible(): void {
+  const lines: string[] = [];
+  const until = rg.blockedUntil();
+  if (until !== null)
+    lines.push(`Play is paused until ${new Date(until).toLocaleString()}.`);
+  const allowance = rg.depositAllowance();
+  const left = (Object.keys(allowance) as DepositPeriod[])
+    .filter((p) => allowance[p] !== null)
+    .map((p) => `${p} ${money.format(allowance[p]!)}`);
+  if (left.length > 0) lines.push(`Deposits left: ${left.join(", ")}`);
+  const pending = rg.getPending();
+  if (pending)
+    lines.push(
+      `From ${new Date(pending.effectiveAt).toLocaleString()}: ${describeLimits(
+        pending.limits
+      )}`
+    );
+  const session = rg.sessionSummary();
+  lines.push(
+    `This session: ${session.minutes} min, net ${money.format(
+      session.netCents
+    )}`
+  );
+  rgStatus.textContent = lines.join("\n");
+}
+
+function onSaveLimits(): void {
+  rg.setLimits({
+    deposit: {
+      daily: money.fromInput(rgDepositEls.daily.value),
+      weekly: money.fromInput(rgDepositEls.weekly.value),
+      monthly: money.fromInput(rgDepositEls.monthly.value),
+    },
+    sessionMinutes: minutesOrNull(rgSessionTimeEl),
+    sessionLossCents: money.fromInput(rgSessionLossEl.value),
+    realityCheckMinutes: minutesOrNull(rgRealityEl),
+  });
+  persist();
+  fillLimitsForm();
+  renderResponsible();
+}
+
+function onBlock(reason: "cooldown" | "exclusion"): void {
+  const select = reason === "exclusion" ? rgExcludeLengthEl : rgBreakLengthEl;
+  const label = select.selectedOptions[0]?.textContent ?? "";
+  const question =
+    reason === "exclusion"
+      ? `Self-exclude for ${label}? This cannot be undone.`
+      : `Take a break for ${label}? You will not be able to play until it ends.`;
+  if (!confirm(question)) return;
+  rg.block(Number(select.value), reason);
+  autoplay?.requestStop();
+  persist();
+  renderResponsible();
+}
+
+function showRealityCheck(): void {
+  if (!realityOverlay.hidden) return;
+  const { minutes, netCents } = rg.sessionSummary();
+  realityTimeEl.textContent = `You have played for ${minutes} minutes.`;
+  realityNetEl.textContent = money.format(netCents);
+  realityOverlay.hidden = false;
+}
+
+function onRealityContinue(): void {
+  rg.acknowledgeRealityCheck();
+  persist();
+  realityOverlay.hidden = true;
+  renderResponsible();
+}
+
+function onRealityBreak(): void {
+  rg.acknowledgeRealityCheck();
+  rg.block(24 * 60 * 60 * 1000, "cooldown");
+  autoplay?.requestStop();
+  persist();
+  realityOverlay.hidden = true;
+  renderResponsible();
+}
+
+/** Pop up reality checks on time, even mid-autoplay (the next spin waits for them). */
+function pollResponsible(): void {
+  if (rg.realityCheckDue()) showRealityCheck();
+  renderResponsible();
+}
+
+/* ---------------- Resume ---------------- */
+
+function offerResume(saved: SavedBonus): void {
+  const { spinsPlayed, spinsRemaining, bonusTotalCents } = saved.session;
+  resumeProgress.textContent = `${spinsPlayed} of ${
+    spinsPlayed + spinsRemaining
+  } free spins played`;
+  resumeTotalEl.textContent = money.formatDisplay(bonusTotalCents);
+  resumeCollectBtn.textContent = `Collect ${money.formatDisplay(
+    bonusTotalCents
+  )} and skip the rest`;
+  resumeOverlay.hidden = false;
+  setDisabled(true);
+
+  // a bonus left in another game resumes there; here it can only be collected
+  const elsewhere =
+    saved.round.game === gameName ? null : gameForRecords(saved.round.game);
+  resumePlayBtn.hidden = saved.round.game !== gameName && !elsewhere;
+  resumePlayBtn.textContent = elsewhere
+    ? `Resume in ${elsewhere.name}`
+    : "Resume free spins";
+  resumePlayBtn.onclick = () => {
+    if (elsewhere) {
+      location.search = `?game=${elsewhere.id}`;
+      return;
+    }
+    resumeOverlay.hidden = true;
+    void resumeBonus(saved);
+  };
+  resumeCollectBtn.onclick = () => {
+    resumeOverlay.hidden = true;
+    void collectSavedBonus(saved);
   };
+}
+
+async function resumeBonus(saved: SavedBonus): Promise<void> {
+  let session: BonusSession;
+  try {
+    session = machine.resumeBonus(saved.session);
+    if (saved.round.fair) fair.resumeRound(saved.round.fair, saved.draws);
+    waitingBonus = null; // runBonusSession saves it as the active bonus from here
+  } catch (err) {
+    alert(
+      `${
+        err instanceof Error ? err.message : "Could not resume the bonus"
+      }. The winnings so far are paid out instead.`
+    );
+    await collectSavedBonus(saved);
+    return;
+  }
 
+  try {
+    await runBonusSession(session, saved.round);
+    await saveRound(saved.round);
+    await renderHistory();
+  } catch (err) {
+    alert(err instanceof Error ? err.message : "Unknown error");
+  } finally {
+    setDisabled(false);
+  }
+}
+
+/** Settle a saved bonus without playing its remaining spins. */
+async function collectSavedBonus(saved: SavedBonus): Promise<void> {
+  const total = saved.session.bonusTotalCents;
+  if (total > 0) machine.creditWinnings(total);
+  finishRound(saved.round, total, machine.getWallet());
+  activeBonus = null;
+  waitingBonus = null;
+  updateUIFromWallet();
   setDisabled(false);
+  await saveRound(saved.round);
+  await renderHistory();
+}
+
+/** Pay out a gamble left open by a reload at the stake it had reached. */
+async function settleSavedGamble(saved: SavedGamble): Promise<void> {
+  const { initialCents, stakeCents, steps } = saved.state;
+  machine.settleGamble(initialCents, stakeCents);
+  recordGamble(saved.round, steps, stakeCents, machine.getWallet());
+  persist();
+  await saveRound(saved.round);
+  await renderHistory();
 }
 
-function buildWinMask(lineWins: LineWin[]): boolean[][] {
-  const mask: boolean[][] = Array.from({ length: ROWS }, () =>
-    Array(COLS).fill(false)
+async function onHistoryExport(): Promise<void> {
+  const blob = new Blob([await exportRounds()], { type: "application/json" });
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = `slot-history-${new Date().toISOString().slice(0, 10)}.json`;
+  a.click();
+  URL.revokeObjectURL(a.href);
+}
+
+async function onHistoryClear(): Promise<void> {
+  if (!confirm("Delete the whole spin history?")) return;
+  await clearRounds();
+  await renderHistory();
+}
+
+/* ---------------- Events ---------------- */
+/** Play one full round (base spin and any bonus) and report what it paid. */
+async function playSpin(): Promise<{
+  winCents: number;
+  freeSpinsAwarded: number;
+}> {
+  clearAllEffects(); // <-- was clearWinEffects()
+
+  machine.setBetCents(Number(betEl.value));
+  const before = machine.getWallet();
+  // a refused spin must not use up a nonce
+  machine.assertCanStake(machine.spinCostCents());
+  const fairRound = fair.startRound();
+  saveFairState(fair.getState());
+  renderFairness();
+  const result = machine.spin();
+  const round = startRound(
+    gameName,
+    result,
+    before,
+    machine.getWallet(),
+    0,
+    fairRound
+  );
+  // save straight away: the free spins survive a reload during the animation
+  const session =
+    result.freeSpinsAwarded > 0
+      ? machine.startBonus(
+          result.freeSpinsAwarded,
+          machine.getWallet().betCents
+        )
+      : null;
+  if (session) activeBonus = { session, round };
+  persist();
+
+  await withSlamStop(async (signal) => {
+    await animateColumnsThenResolve(
+      result.grid,
+      1200,
+      140,
+      undefined,
+      stripSpin(result.stops, false),
+      signal
+    );
+    if (result.cascade) await presentCascade(result.cascade, signal);
+  });
+  const wins = finalWins(result);
+  if (!result.cascade || wins.length > 0) showWins(wins);
+  if (!result.cascade)
+    sound.win(result.totalWinCents / before.betCents, briefSounds());
+  lastWinEl.textContent = money.formatDisplay(result.totalWinCents);
+  announce(speakSpin(result, result.totalWinCents, result.jackpotWins));
+  const tier = winTierFor(
+    machine.getWinTiers(),
+    result.totalWinCents,
+    before.betCents
   );
-  for (const w of lineWins) {
-    const rStep = Math.sign(w.endRow - w.startRow);
-    const cStep = Math.sign(w.endCol - w.startCol);
-    let r = w.startRow,
-      c = w.startCol;
-    for (let k = 0; k < w.length; k++) {
-      if (r >= 0 && r < ROWS && c >= 0 && c < COLS) mask[r][c] = true;
-      r += rStep;
-      c += cStep;
+  if (tier) await celebrateWin(tier, result.totalWinCents);
+  // cascades already showed their line wins step by step
+  if (wins.length > 0) void cycleWins(wins, true);
+  updateUIFromWallet();
+  renderJackpots();
+  for (const win of result.jackpotWins) await presentJackpot(win);
+
+  // optional double-up on a plain base win (not while autoplaying)
+  if (!session && !autoplay && result.totalWinCents > 0) {
+    const gamble = machine.startGamble(result);
+    if (gamble.canGamble) {
+      activeGamble = { session: gamble, round };
+      persist();
+      const finalCents = await runGamble(gamble);
+      activeGamble = null;
+      recordGamble(round, result.gamble ?? [], finalCents, machine.getWallet());
+      persist();
+      lastWinEl.textContent = money.formatDisplay(finalCents);
+      updateUIFromWallet();
     }
   }
-  return mask;
-}
 
-function incrementWildsByMask(
-  wilds: number[][],
-  mask: boolean[][],
-  cap = Number.POSITIVE_INFINITY
-): Array<[number, number]> {
-  const inc: Array<[number, number]> = [];
-  for (let r = 0; r < ROWS; r++) {
-    for (let c = 0; c < COLS; c++) {
-      if (mask[r][c] && wilds[r][c] > 0) {
-        const before = wilds[r][c];
-        wilds[r][c] = Math.min(cap, before + 1);
-        if (wilds[r][c] !== before) inc.push([r, c]);
-      }
+  if (session) {
+    await wait(600);
+    await runBonusSession(session, round);
+    if (autoplay) {
+      // let the end card show, then carry on without a click
+      await wait(1500);
+      bonusOverlay.hidden = true;
     }
   }
-  return inc;
+  await saveRound(round);
+  await renderHistory();
+  return {
+    winCents: round.totalWinCents,
+    freeSpinsAwarded: result.freeSpinsAwarded,
+  };
 }
-/* ---------------- Events ---------------- */
+
 async function onSpinClick(): Promise<void> {
+  if (slam) {
+    slam.abort(); // the button is the slam-stop while reels spin
+    return;
+  }
   try {
     setDisabled(true);
-    clearAllEffects(); // <-- was clearWinEffects()
+    await playSpin();
+  } catch (err) {
+    if (rg.realityCheckDue()) showRealityCheck();
+    else alert(err instanceof Error ? err.message : "Unknown error");
+  } finally {
+    setDisabled(false);
+  }
+}
 
-    machine.setBetCents(Number(betEl.value));
-    const result = machine.spin();
+/* ---------------- Money display ---------------- */
+
+/** Currency symbol in form labels, input steps, the deposit button and the display choices. */
+function renderMoneyLabels(): void {
+  for (const el of document.querySelectorAll("[data-currency]"))
+    el.textContent = money.symbol;
+  for (const el of document.querySelectorAll<HTMLInputElement>(
+    "input[data-money]"
+  ))
+    el.step = money.inputStep;
+  addFundsBtn.textContent = `+ Add ${money.format(currency.depositCents)}`;
+
+  const choices: Array<[string, string]> = [["", currency.code]];
+  for (const d of currency.denominations)
+    choices.push([String(d), `Credits (${money.format(d)})`]);
+  moneyDisplayEl.replaceChildren(
+    ...choices.map(([value, label]) => {
+      const opt = document.createElement("option");
+      opt.value = value;
+      opt.textContent = label;
+      return opt;
+    })
+  );
+  moneyDisplayEl.value = String(money.getCredits() ?? "");
+}
 
-    await animateColumnsThenResolve(result.grid, 1200, 140);
-    lastWinEl.textContent = formatEuro(result.totalWinCents);
-    showWins(result.lineWins);
-    updateUIFromWallet();
+/** Switch balance, bet and wins between currency and credits. */
+function onMoneyDisplayChange(): void {
+  const credits = moneyDisplayEl.value ? Number(moneyDisplayEl.value) : null;
+  money.setCredits(credits);
+  settings.credits = credits;
+  updateUIFromWallet();
+  renderJackpots();
+  renderModePrices();
+  lastWinEl.textContent = money.formatDisplay(0);
+}
 
-    if (result.freeSpinsAwarded > 0) {
-      await new Promise((res) => setTimeout(res, 600));
-      await runBonusSession(result.freeSpinsAwarded);
-    }
+/* ---------------- Sound ---------------- */
+
+/** Short jingles and fanfares while autoplay runs or motion is reduced. */
+function briefSounds(): boolean {
+  return autoplay !== null || reducedMotion();
+}
+
+function renderSoundForm(): void {
+  const s = sound.getSettings();
+  soundMutedEl.checked = s.muted;
+  soundMasterEl.value = String(s.master);
+  soundMusicEl.value = String(s.music);
+  soundEffectsEl.value = String(s.effects);
+}
+
+function onSoundInput(): void {
+  settings.sound = {
+    muted: soundMutedEl.checked,
+    master: Number(soundMasterEl.value),
+    music: Number(soundMusicEl.value),
+    effects: Number(soundEffectsEl.value),
+  };
+  sound.setSettings(settings.sound);
+  persist();
+}
+
+/* ---------------- Ante bet & bonus buy ---------------- */
+
+/** Prices follow the bet: ante surcharge next to the toggle, one buy option per package. */
+function renderModePrices(): void {
+  const bet = machine.getWallet().betCents;
+  anteWrap.hidden = !machine.anteAvailable;
+  anteEl.checked = machine.isAnteOn();
+  anteCostEl.textContent = `(+${money.formatDisplay(
+    roundCostCents(config, bet, { type: "ante" }) - bet
+  )})`;
+
+  const options = machine.getBonusBuyOptions();
+  const selected = buySpinsEl.value;
+  buyWrap.hidden = options.length === 0;
+  buySpinsEl.replaceChildren(
+    ...options.map((o) => {
+      const opt = document.createElement("option");
+      opt.value = String(o.spins);
+      opt.textContent = `${o.spins} FS · ${money.formatDisplay(
+        machine.bonusBuyCostCents(o.spins)
+      )}`;
+      return opt;
+    })
+  );
+  if (selected) buySpinsEl.value = selected;
+}
+
+/** Verify form: the same round modes the machine offers. */
+function renderVerifyModes(): void {
+  const modes: Array<[string, string]> = [["spin", "Spin"]];
+  if (machine.anteAvailable) modes.push(["ante", "Spin + ante"]);
+  for (const o of machine.getBonusBuyOptions())
+    modes.push([`buy:${o.spins}`, `Bonus buy (${o.spins} FS)`]);
+  verifyModeInput.replaceChildren(
+    ...modes.map(([value, label]) => {
+      const opt = document.createElement("option");
+      opt.value = value;
+      opt.textContent = label;
+      return opt;
+    })
+  );
+}
+
+function onAnteChange(): void {
+  machine.setAnte(anteEl.checked);
+  settings.ante = anteEl.checked;
+  persist();
+}
+
+/** Charge the package price and play the free spins as their own round. */
+async function playBoughtBonus(spins: number): Promise<void> {
+  clearAllEffects();
+  machine.setBetCents(Number(betEl.value));
+  const before = machine.getWallet();
+  const costCents = machine.bonusBuyCostCents(spins);
+  machine.assertCanStake(costCents);
+  const fairRound = fair.startRound();
+  saveFairState(fair.getState());
+  renderFairness();
+  const session = machine.buyBonus(spins);
+  const round = startBoughtRound(
+    gameName,
+    spins,
+    costCents,
+    before,
+    machine.getWallet(),
+    0,
+    fairRound
+  );
+  activeBonus = { session, round };
+  persist();
+  lastWinEl.textContent = money.format(0);
+  updateUIFromWallet();
+
+  await runBonusSession(session, round);
+  await saveRound(round);
+  await renderHistory();
+}
+
+async function onBuyClick(): Promise<void> {
+  const spins = Number(buySpinsEl.value);
+  try {
+    const costCents = roundCostCents(config, Number(betEl.value), {
+      type: "buy",
+      spins,
+    });
+    if (!confirm(`Buy ${spins} free spins for ${money.format(costCents)}?`))
+      return;
+    setDisabled(true);
+    await playBoughtBonus(spins);
   } catch (err) {
-    alert(err instanceof Error ? err.message : "Unknown error");
+    if (rg.realityCheckDue()) showRealityCheck();
+    else alert(err instanceof Error ? err.message : "Unknown error");
   } finally {
     setDisabled(false);
   }
 }
 
+/* ---------------- Jackpots ---------------- */
+
+/** One meter per pool; pools the current bet cannot win are dimmed. */
+function renderJackpots(): void {
+  const pools = machine.getJackpots();
+  const bet = Number(betEl.value);
+  jackpotMeters.hidden = pools.getPools().length === 0;
+  jackpotMeters.replaceChildren(
+    ...pools.getPools().map((p) => {
+      const meter = document.createElement("div");
+      meter.className = "jackpot-meter";
+      meter.dataset.pool = p.id;
+      meter.classList.toggle("locked", bet < (p.minBetCents ?? 0));
+      meter.title =
+        p.minBetCents !== undefined
+          ? `Needs a bet of ${money.formatDisplay(p.minBetCents)} or more`
+          : "";
+      const name = document.createElement("div");
+      name.className = "jackpot-name";
+      name.textContent = p.name;
+      const value = document.createElement("div");
+      value.className = "jackpot-value";
+      value.textContent = money.formatDisplay(pools.valueCents(p.id));
+      meter.append(name, value);
+      return meter;
+    })
+  );
+}
+
+/** Flash the won meter and hold the round on a jackpot card until collected (autoplay moves on by itself). */
+function presentJackpot(win: JackpotWin): Promise<void> {
+  jackpotMeters
+    .querySelector<HTMLDivElement>(`[data-pool="${win.poolId}"]`)
+    ?.classList.add("won");
+  jackpotTitle.textContent = `${win.name.toUpperCase()} JACKPOT`;
+  jackpotAmount.textContent = money.formatDisplay(win.winCents);
+  lastWinEl.textContent = `${win.name} jackpot ${money.formatDisplay(
+    win.winCents
+  )}`;
+  jackpotOverlay.hidden = false;
+  sound.win(win.winCents / machine.getWallet().betCents, briefSounds());
+  return new Promise((resolve) => {
+    const close = () => {
+      clearTimeout(timer);
+      jackpotCloseBtn.onclick = null;
+      jackpotOverlay.hidden = true;
+      resolve();
+    };
+    const timer = autoplay ? setTimeout(close, pace(3000)) : undefined;
+    jackpotCloseBtn.onclick = close;
+  });
+}
+
+/* ---------------- Gamble ---------------- */
+
+const SUIT_GLYPHS: Record<CardSuit, string> = {
+  hearts: "♥",
+  diamonds: "♦",
+  clubs: "♣",
+  spades: "♠",
+};
+
+function describeGambleStep(step: GambleStep): string {
+  const guess =
+    step.guess in SUIT_GLYPHS
+      ? SUIT_GLYPHS[step.guess as CardSuit]
+      : step.guess;
+  return `Gamble ${step.step}: ${guess} → ${SUIT_GLYPHS[step.suit]} ${
+    step.won ? "won" : "lost"
+  } ${money.formatDisplay(step.resultCents)}`;
+}
+
+/** Let the player double up until they collect, lose or hit the limits; resolves with the amount paid. */
+function runGamble(gamble: GambleSession): Promise<number> {
+  return new Promise((resolve) => {
+    const log: string[] = [];
+
+    const render = () => {
+      gambleStakeEl.textContent = money.formatDisplay(gamble.stakeCents);
+      gambleStepsEl.textContent = `(step ${gamble.stepsPlayed + 1})`;
+      gambleGuessBtns.forEach((b) => (b.disabled = !gamble.canGamble));
+      gambleCollectBtn.disabled = gamble.isFinished;
+      gambleLog.textContent = log.join("\n");
+    };
+
+    const finish = () => {
+      gambleGuessBtns.forEach((b) => (b.onclick = null));
+      gambleCollectBtn.onclick = null;
+      gamblePanel.hidden = true;
+      resolve(gamble.collect());
+    };
+
+    gambleGuessBtns.forEach((b) => {
+      b.onclick = () => {
+        const step = gamble.play(b.dataset.guess as GambleGuess);
+        persist(); // a reload now settles the gamble at this stake
+        gambleCardEl.textContent = SUIT_GLYPHS[step.suit];
+        gambleCardEl.classList.toggle("red", suitColor(step.suit) === "red");
+        log.push(describeGambleStep(step));
+        announce(
+          `Card: ${step.suit}. ${
+            step.won ? "Won" : "Lost"
+          }: ${money.formatDisplay(step.resultCents)}.`
+        );
+        render();
+        // a loss or the last allowed step ends the gamble on its own
+        if (!gamble.canGamble) {
+          gambleCollectBtn.disabled = true;
+          setTimeout(finish, pace(900));
+        }
+      };
+    });
+    gambleCollectBtn.onclick = finish;
+
+    gambleCardEl.textContent = "🂠";
+    gambleCardEl.classList.remove("red");
+    render();
+    gamblePanel.hidden = false;
+  });
+}
+
+/* ---------------- Autoplay ---------------- */
+
+const AUTOPLAY_STOP_TEXT: Record<AutoplayStop, string> = {
+  completed: "all rounds played",
+  stopped: "stopped",
+  lossLimit: "loss limit reached",
+  singleWin: "single win limit exceeded",
+  balanceBelow: "balance below limit",
+  balanceAbove: "balance above limit",
+  freeSpins: "free spins triggered",
+  error: "error",
+};
+
+function renderAutoplayForm(s: AutoplaySettings): void {
+  autoplayRoundsEl.replaceChildren(
+    ...AUTOPLAY_ROUNDS.map((n) => {
+      const o = document.createElement("option");
+      o.value = n === null ? "" : String(n);
+      o.textContent = n === null ? "Until stopped" : String(n);
+      o.selected = n === s.rounds;
+      return o;
+    })
+  );
+  autoplayLossEl.value = money.toInput(s.lossLimitCents);
+  autoplayWinEl.value = money.toInput(s.singleWinAboveCents);
+  autoplayBelowEl.value = money.toInput(s.balanceBelowCents);
+  autoplayAboveEl.value = money.toInput(s.balanceAboveCents);
+  autoplayFsEl.checked = s.stopOnFreeSpins;
+}
+
+function readAutoplayForm(): AutoplaySettings {
+  return {
+    rounds: autoplayRoundsEl.value ? Number(autoplayRoundsEl.value) : null,
+    lossLimitCents: money.fromInput(autoplayLossEl.value),
+    singleWinAboveCents: money.fromInput(autoplayWinEl.value),
+    balanceBelowCents: money.fromInput(autoplayBelowEl.value),
+    balanceAboveCents: money.fromInput(autoplayAboveEl.value),
+    stopOnFreeSpins: autoplayFsEl.checked,
+  };
+}
+
+function renderAutoplayStatus(): void {
+  if (!autoplay) {
+    autoplayBtn.textContent = "AUTO";
+    return;
+  }
+  const left = autoplay.roundsRemaining;
+  autoplayBtn.textContent = `STOP (${left ?? "∞"})`;
+  autoplayStatus.hidden = false;
+  autoplayStatus.textContent = `Autoplay: ${autoplay.roundsPlayed} played${
+    left === null ? "" : `, ${left} left`
+  }`;
+}
+
+/** Play rounds until a stop condition; errors end autoplay with a status line, not an alert. */
+async function runAutoplay(): Promise<void> {
+  settings.autoplay = readAutoplayForm();
+  persist();
+  autoplay = new Autoplay(settings.autoplay, machine.getWallet().balanceCents);
+  setDisabled(true);
+
+  let reason = autoplay.beforeRound();
+  let error = "";
+  while (reason === null) {
+    renderAutoplayStatus();
+    try {
+      const round = await playSpin();
+      reason = autoplay.afterRound({
+        ...round,
+        balanceCents: machine.getWallet().balanceCents,
+      });
+    } catch (err) {
+      reason = "error";
+      error = err instanceof Error ? err.message : "Unknown error";
+    }
+    if (reason === null) await wait(300);
+  }
+
+  const played = autoplay.roundsPlayed;
+  autoplay = null;
+  renderAutoplayStatus();
+  autoplayStatus.textContent = `Autoplay ended after ${played} rounds: ${
+    error || AUTOPLAY_STOP_TEXT[reason]
+  }`;
+  setDisabled(false);
+}
+
+function onAutoplayClick(): void {
+  if (autoplay) {
+    autoplay.requestStop();
+    autoplayBtn.textContent = "STOPPING…";
+    autoplayBtn.disabled = true;
+  } else {
+    void runAutoplay();
+  }
+}
+
 function onAddFunds(): void {
-  machine.addFunds(1000); // +€10.00
+  try {
+    machine.addFunds(currency.depositCents);
+  } catch (err) {
+    alert(err instanceof Error ? err.message : "Deposit refused");
+  }
   updateUIFromWallet();
+  renderResponsible();
 }
 
 function onBetChange(): void {
   try {
     machine.setBetCents(Number(betEl.value));
+    persist();
+    renderJackpots();
+    renderModePrices();
   } catch (err) {
     alert(err instanceof Error ? err.message : "Invalid bet");
   }
 }
 
 function onKeyDown(e: KeyboardEvent): void {
-  if (e.code === "Space" && !spinBtn.disabled) {
+  // Space on a focused control belongs to that control
+  const target = e.target as HTMLElement;
+  if (target.closest("button, input, select, textarea, summary, a")) return;
+  if (e.code === "Space" && autoplay && !autoplayBtn.disabled) {
+    e.preventDefault();
+    onAutoplayClick();
+  } else if (e.code === "Space" && !spinBtn.disabled) {
     e.preventDefault();
     void onSpinClick();
   }
@@ -489,9 +2581,186 @@ function onKeyDown(e: KeyboardEvent): void {
 
 spinBtn.addEventListener("click", () => void onSpinClick());
 addFundsBtn.addEventListener("click", onAddFunds);
+autoplayBtn.addEventListener("click", onAutoplayClick);
+rgSaveBtn.addEventListener("click", onSaveLimits);
+rgBreakBtn.addEventListener("click", () => onBlock("cooldown"));
+rgExcludeBtn.addEventListener("click", () => onBlock("exclusion"));
+realityContinueBtn.addEventListener("click", onRealityContinue);
+realityBreakBtn.addEventListener("click", onRealityBreak);
 betEl.addEventListener("change", onBetChange);
+anteEl.addEventListener("change", onAnteChange);
+moneyDisplayEl.addEventListener("change", onMoneyDisplayChange);
+reduceMotionEl.addEventListener("change", onReduceMotionChange);
+turboEl.addEventListener("change", onTurboChange);
+slotStage.addEventListener("click", () => slam?.abort());
+reelsRoot.addEventListener("keydown", onGridKeyDown);
+for (const el of [soundMutedEl, soundMasterEl, soundMusicEl, soundEffectsEl])
+  el.addEventListener("input", onSoundInput);
+// browsers only start audio from a user gesture
+window.addEventListener("pointerdown", () => sound.unlock());
+window.addEventListener("keydown", () => sound.unlock());
+motionQuery.addEventListener("change", applyMotionSetting);
+buyBtn.addEventListener("click", () => void onBuyClick());
+historyExportBtn.addEventListener("click", () => void onHistoryExport());
+historyClearBtn.addEventListener("click", () => void onHistoryClear());
+statsResetBtn.addEventListener("click", onStatsReset);
+statsExportBtn.addEventListener("click", onStatsExport);
+fairClientSetBtn.addEventListener("click", onClientSeedSet);
+fairRotateBtn.addEventListener("click", onRotate);
+verifyOpenBtn.addEventListener("click", () => openVerify());
+verifyForm.addEventListener("submit", onVerifySubmit);
+verifyCloseBtn.addEventListener("click", () => {
+  verifyOverlay.hidden = true;
+});
 window.addEventListener("keydown", onKeyDown);
+lobbyBtn.addEventListener("click", () => {
+  const params = new URLSearchParams(location.search);
+  params.delete("game");
+  location.search = params.toString();
+});
+// the lobby and each game are separate page loads
+window.addEventListener("popstate", () => location.reload());
+
+/* ---------------- QA scenarios (dev builds only) ---------------- */
+
+/**
+ * `?qa` adds a panel for queueing exact base grids and free spins;
+ * `?scenario=<name>` also queues scenarios/<name>.json at startup. Only called
+ * behind import.meta.env.DEV, so production builds contain none of it.
+ */
+async function mountScenarioPanel(): Promise<void> {
+  const params = new URLSearchParams(location.search);
+  const wanted = params.get("scenario");
+  if (!params.has("qa") && wanted === null) return;
+
+  const {
+    ScenarioQueue,
+    parseScenario,
+    parseGridText,
+    parseWildsText,
+    validateGrid,
+    validateWilds,
+  } = await import("./scenario");
+  const files = import.meta.glob("../scenarios/*.json", { import: "default" });
+  const scenarios = new Map(
+    Object.entries(files).map(([path, load]) => [
+      path.replace(/^.*\/|\.json$/g, ""),
+      load,
+    ])
+  );
+  const queue = new ScenarioQueue();
+  // the queued counts drop as the machine takes outcomes
+  const after = <T>(taken: T): T => {
+    render();
+    return taken;
+  };
+  machine.setForcedOutcomes({
+    nextGrid: () => after(queue.nextGrid()),
+    nextBonusSpin: () => after(queue.nextBonusSpin()),
+  });
+
+  const field = <K extends keyof HTMLElementTagNameMap>(
+    tag: K,
+    label: string
+  ): HTMLElementTagNameMap[K] => {
+    const wrap = document.createElement("label");
+    const input = document.createElement(tag);
+    wrap.append(label, input);
+    form.append(wrap);
+    return input;
+  };
+  const button = (text: string, onClick: () => void | Promise<void>): void => {
+    const btn = document.createElement("button");
+    btn.className = "btn small";
+    btn.textContent = text;
+    btn.addEventListener("click", async () => {
+      try {
+        await onClick();
+      } catch (err) {
+        alert(err instanceof Error ? err.message : "Could not queue");
+      }
+      render();
+    });
+    form.append(btn);
+  };
+  const check = (issues: string[]): void => {
+    if (issues.length > 0) throw new Error(issues.join("\n"));
+  };
+  const queueScenario = async (name: string): Promise<void> => {
+    const load = scenarios.get(name);
+    if (!load) throw new Error(`No scenario named ${name}`);
+    queue.load(parseScenario(await load(), config));
+  };
+
+  const panel = document.createElement("details");
+  panel.className = "paytable qa";
+  panel.open = true;
+  const summary = document.createElement("summary");
+  summary.textContent = "QA scenarios";
+  const form = document.createElement("div");
+  form.className = "autoplay-form";
+  const status = document.createElement("div");
+  status.className = "rg-status";
+  panel.append(summary, form, status);
+  document.querySelector(".machine")!.append(panel);
+
+  const pick = field("select", "Scenario");
+  pick.append(...[...scenarios.keys()].map((name) => new Option(name, name)));
+  button("Queue scenario", () => queueScenario(pick.value));
+  const example = config.symbols.map((s) => s.id).join(" ");
+  const baseGrid = field("textarea", "Base grid (one row per line)");
+  baseGrid.rows = config.rows;
+  baseGrid.placeholder = example;
+  button("Queue spin", () => {
+    const grid = parseGridText(baseGrid.value, config);
+    check(validateGrid(grid, config));
+    queue.queueSpin(grid);
+  });
+  const bonusGrid = field("textarea", "Free spin grid");
+  bonusGrid.rows = config.rows;
+  bonusGrid.placeholder = example;
+  const bonusWilds = field("textarea", "Free spin wilds (0 = none)");
+  bonusWilds.rows = config.rows;
+  button("Queue free spin", () => {
+    const grid = parseGridText(bonusGrid.value, config);
+    const wilds = parseWildsText(bonusWilds.value);
+    check([...validateGrid(grid, config), ...validateWilds(wilds, config)]);
+    queue.queueBonusSpin({ grid, wilds });
+  });
+  button("Clear queue", () => queue.clear());
+
+  function render(): void {
+    status.textContent = `Queued: ${queue.pendingSpins} spin(s), ${queue.pendingBonusSpins} free spin(s)`;
+  }
+  render();
+
+  if (wanted !== null) {
+    try {
+      await queueScenario(wanted);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Invalid scenario");
+    }
+    render();
+  }
+}
 
 /* ---------------- Initial render ---------------- */
+applyMotionSetting();
+turboEl.checked = settings.turbo;
+renderMoneyLabels();
 renderPaytable();
+if (persisted?.gamble) void settleSavedGamble(persisted.gamble);
 updateUIFromWallet();
+lastWinEl.textContent = money.formatDisplay(0);
+renderJackpots();
+renderModePrices();
+renderVerifyModes();
+renderFairness();
+renderAutoplayForm(settings.autoplay);
+renderSoundForm();
+fillLimitsForm();
+renderResponsible();
+setInterval(pollResponsible, 15000);
+void renderHistory();
+if (persisted?.bonus) offerResume(persisted.bonus);
+if (import.meta.env.DEV) await mountScenarioPanel();
@@ -0,0 +1,94 @@
+// src/money.ts
+//
+// Money display. Amounts are integers in the game currency's minor unit and
+// are formatted with Intl.NumberFormat for the player's locale (the runtime
+// default unless one is passed). Balance and wins can instead be shown as
+// credits: the amount divided by a chosen denomination.
+
+import type { CurrencyConfig } from "./types";
+
+export const DEFAULT_CURRENCY: CurrencyConfig = {
+  code: "EUR",
+  minorUnits: 2,
+  betLadder: [25, 50, 100, 200, 500],
+  defaultBetCents: 100,
+  startingBalanceCents: 10000,
+  depositCents: 1000,
+  denominations: [1, 5, 10, 100],
+};
+
+export class Money {
+  readonly currency: CurrencyConfig;
+  private amount: Intl.NumberFormat;
+  private count: Intl.NumberFormat;
+  private scale: number;
+  private credits: number | null = null;
+
+  constructor(currency: CurrencyConfig = DEFAULT_CURRENCY, locale?: string) {
+    this.currency = currency;
+    this.scale = 10 ** currency.minorUnits;
+    this.amount = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: currency.code,
+      minimumFractionDigits: currency.minorUnits,
+      maximumFractionDigits: currency.minorUnits,
+    });
+    this.count = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+  }
+
+  /** The amount in the currency, e.g. "€1.50", "1,50 €" or "￥150". */
+  format(cents: number): string {
+    return this.amount.format(cents / this.scale);
+  }
+
+  /** Balance and wins: credits when a denomination is chosen, otherwise currency. */
+  formatDisplay(cents: number): string {
+    return this.credits === null
+      ? this.format(cents)
+      : `${this.count.format(cents / this.credits)} cr`;
+  }
+
+  /** Credit value in minor units, or null for the currency display. */
+  getCredits(): number | null {
+    return this.credits;
+  }
+
+  setCredits(denomination: number | null): void {
+    if (
+      denomination !== null &&
+      !this.currency.denominations.includes(denomination)
+    )
+      throw new Error(
+        `Denomination must be one of ${this.currency.denominations.join(", ")}`
+      );
+    this.credits = denomination;
+  }
+
+  /** The locale's symbol for the currency ("€", "¥", "US$"). */
+  get symbol(): string {
+    return (
+      this.amount.formatToParts(0).find((p) => p.type === "currency")?.value ??
+      this.currency.code
+    );
+  }
+
+  /** Input step for amounts typed in major units (0.01 for EUR, 1 for JPY). */
+  get inputStep(): string {
+    return (1 / this.scale).toFixed(this.currency.minorUnits);
+  }
+
+  /** Minor units → a plain major-unit value for a number input ("" for none). */
+  toInput(cents: number | null): string {
+    return cents === null
+      ? ""
+      : (cents / this.scale).toFixed(this.currency.minorUnits);
+  }
+
+  /** A major-unit input value → minor units; null when empty or invalid. */
+  fromInput(value: string): number | null {
+    const v = value.trim();
+    if (v === "") return null;
+    const cents = Math.round(Number(v) * this.scale);
+    return Number.isFinite(cents) && cents >= 0 ? cents : null;
+  }
+}
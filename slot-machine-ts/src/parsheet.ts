@@ -0,0 +1,577 @@
+// src/parsheet.ts
+
+import type { SlotConfig, SymbolId, SymbolRole } from "./types";
+import {
+  DEFAULT_SCATTER_RULES,
+  resolvePaylines,
+  scatterAward,
+} from "./slotmachine";
+import { parseConfig, symbolPays } from "./config";
+
+/**
+ * One paying run on one line: probability it lands, its pay (× bet) and RTP
+ * contribution. In ways evaluation `line` is "ways" and `rtp` is pay × the
+ * expected number of ways, so it is not simply probability × pay.
+ */
+export interface ParRun {
+  line: string;
+  direction: "ltr" | "rtl";
+  symbol: SymbolId;
+  length: 3 | 4 | 5;
+  probability: number;
+  pay: number;
+  rtp: number;
+}
+
+export interface ParSymbol {
+  symbol: SymbolId;
+  role: SymbolRole;
+  weight: number;
+  cellProbability: number; // chance this symbol shows in a cell, averaged over the grid
+  winsPerSpin: number; // expected paying lines (or ways wins) of this symbol per spin
+  rtp: number;
+  share: number; // fraction of the base-game line RTP
+}
+
+export interface ParScatterCount {
+  scatters: number;
+  probability: number;
+  pay: number; // scatter pay (× bet)
+  freeSpins: number;
+}
+
+/**
+ * Closed-form base-game maths for a SlotConfig. All RTP figures are ratios of
+ * the bet (1 = 100%) computed on the paytable multipliers, before rounding to
+ * whole cents.
+ */
+export interface ParSheet {
+  reels: number;
+  rows: number;
+  generation: "weighted cells" | "reel strips";
+  evaluation: "lines" | "ways";
+  payDirection: "ltr" | "rtl" | "both";
+  lines: Array<{ id: string; rows: number[] }>;
+  symbols: ParSymbol[];
+  runs: ParRun[];
+  scatter: {
+    perReel: number[]; // chance each reel shows at least one scatter
+    counts: ParScatterCount[];
+    triggerProbability: number;
+    expectedFreeSpins: number; // free spins awarded per base spin
+    rtp: number; // base-game scatter pays, not included in baseRtp
+  };
+  winsPerSpin: number;
+  baseRtp: number;
+}
+
+interface ReelModel {
+  cells: Record<SymbolId, number>[]; // marginal symbol chance per row
+  scatterCounts: number[]; // P(reel shows k scatters)
+  miss(hits: Set<SymbolId>): number; // P(reel shows none of `hits`)
+}
+
+/**
+ * Exact model of one reel under generateGrid(): rows are drawn top to bottom
+ * by weight, and scatters are re-rolled once the reel holds maxScattersPerReel.
+ * Every weighted reel shares this model.
+ */
+function weightedReelModel(config: SlotConfig): ReelModel {
+  const cap = config.maxScattersPerReel ?? 1;
+  const total = config.symbols.reduce((acc, s) => acc + s.weight, 0);
+  const scatterWeight = config.symbols
+    .filter((s) => s.role === "scatter")
+    .reduce((acc, s) => acc + s.weight, 0);
+
+  // state[j] = P(j scatters already placed in the rows above)
+  let state = Array<number>(cap + 1).fill(0);
+  state[0] = 1;
+  const cells: Record<SymbolId, number>[] = [];
+
+  for (let r = 0; r < config.rows; r++) {
+    const open = state.slice(0, cap).reduce((acc, p) => acc + p, 0);
+    const full = state[cap];
+    const row: Record<SymbolId, number> = {};
+    for (const s of config.symbols) {
+      row[s.id] =
+        s.role === "scatter"
+          ? (open * s.weight) / total
+          : (open * s.weight) / total +
+            (full * s.weight) / (total - scatterWeight);
+    }
+    cells.push(row);
+
+    const next = Array<number>(cap + 1).fill(0);
+    for (let j = 0; j <= cap; j++) {
+      if (j < cap) {
+        next[j + 1] += (state[j] * scatterWeight) / total;
+        next[j] += (state[j] * (total - scatterWeight)) / total;
+      } else {
+        next[j] += state[j];
+      }
+    }
+    state = next;
+  }
+
+  // Ways stop condition: same walk, but only along rows that missed.
+  const miss = (hits: Set<SymbolId>): number => {
+    // p[j] = P(no hit so far and j scatters placed)
+    let p = Array<number>(cap + 1).fill(0);
+    p[0] = 1;
+    for (let r = 0; r < config.rows; r++) {
+      const next = Array<number>(cap + 1).fill(0);
+      for (let j = 0; j <= cap; j++) {
+        if (j < cap) next[j + 1] += (p[j] * scatterWeight) / total;
+        const pool = j < cap ? total : total - scatterWeight;
+        for (const s of config.symbols) {
+          if (s.role === "scatter" || hits.has(s.id)) continue;
+          next[j] += (p[j] * s.weight) / pool;
+        }
+      }
+      p = next;
+    }
+    return p.reduce((acc, x) => acc + x, 0);
+  };
+
+  return { cells, scatterCounts: state, miss };
+}
+
+/** Exact model of one physical strip: every stop is equally likely. */
+function stripReelModel(config: SlotConfig, strip: SymbolId[]): ReelModel {
+  const scatterIds = new Set(
+    config.symbols.filter((s) => s.role === "scatter").map((s) => s.id)
+  );
+  const windows = strip.map((_, stop) =>
+    Array.from(
+      { length: config.rows },
+      (_, r) => strip[(stop + r) % strip.length]
+    )
+  );
+
+  const row: Record<SymbolId, number> = {};
+  for (const s of config.symbols) {
+    row[s.id] = strip.filter((id) => id === s.id).length / strip.length;
+  }
+
+  const scatterCounts = Array<number>(config.rows + 1).fill(0);
+  for (const w of windows) {
+    scatterCounts[w.filter((id) => scatterIds.has(id)).length] +=
+      1 / strip.length;
+  }
+
+  return {
+    cells: Array.from({ length: config.rows }, () => row),
+    scatterCounts,
+    miss: (hits) =>
+      windows.filter((w) => !w.some((id) => hits.has(id))).length /
+      strip.length,
+  };
+}
+
+/** One model per reel: base-game strips when configured, else the weighted model. */
+function reelModels(config: SlotConfig): ReelModel[] {
+  if (config.reelStrips) {
+    return config.reelStrips.base.map((strip) => stripReelModel(config, strip));
+  }
+  const model = weightedReelModel(config);
+  return Array.from({ length: config.reels }, () => model);
+}
+
+/** Chance of each symbol in each cell, as [reel][row]. */
+export function cellProbabilities(
+  config: SlotConfig
+): Record<SymbolId, number>[][] {
+  return reelModels(parseConfig(config)).map((m) => m.cells);
+}
+
+/** Highest 5-of-a-kind regular symbol — the target of an all-wild line, as in scoreGrid. */
+function bestFiveSymbol(config: SlotConfig): SymbolId {
+  let best = "";
+  let bestPay = -Infinity;
+  for (const s of config.symbols) {
+    const pays = symbolPays(s);
+    if (pays && pays[5] > bestPay) {
+      bestPay = pays[5];
+      best = s.id;
+    }
+  }
+  return best;
+}
+
+export function computeParSheet(config: SlotConfig): ParSheet {
+  config = parseConfig(config);
+  const models = reelModels(config);
+  const wildIds = config.symbols
+    .filter((s) => s.role === "wild")
+    .map((s) => s.id);
+  // P(cell is any wild symbol), as [reel][row]
+  const wildProb = models.map((m) =>
+    m.cells.map((row) => wildIds.reduce((acc, id) => acc + row[id], 0))
+  );
+  const best = bestFiveSymbol(config);
+  const paylines = resolvePaylines(config);
+  const direction = config.payDirection ?? "ltr";
+  const directions: Array<"ltr" | "rtl"> =
+    direction === "both" ? ["ltr", "rtl"] : [direction];
+  const ways = (config.evaluation ?? "lines") === "ways";
+  const runs: ParRun[] = [];
+
+  if (!ways) {
+    for (const line of paylines) {
+      for (const dir of directions) {
+        // one [row, reel] per reel (capped at 5 like scoreGrid), reels independent
+        const cells = line.rows.map((r, c): [number, number] => [r, c]);
+        if (dir === "rtl") cells.reverse();
+        const path = cells.slice(0, 5);
+        // a run covering the whole line already paid left→right
+        const maxLen =
+          dir === "rtl" &&
+          directions.length === 2 &&
+          path.length === line.rows.length
+            ? path.length - 1
+            : path.length;
+        const wildAt = (i: number) => wildProb[path[i][1]][path[i][0]];
+
+        for (const s of config.symbols) {
+          const pays = symbolPays(s);
+          if (!pays) continue;
+          const matchAt = (i: number) =>
+            models[path[i][1]].cells[path[i][0]][s.id] + wildAt(i);
+
+          for (let len = 3; len <= maxLen; len++) {
+            // first `len` cells are s-or-wild but not all wild (those take the next symbol as target)…
+            let allMatch = 1,
+              allWild = 1;
+            for (let i = 0; i < len; i++) {
+              allMatch *= matchAt(i);
+              allWild *= wildAt(i);
+            }
+            let exact = allMatch - allWild;
+            // …and the run stops there
+            if (len < path.length) exact *= 1 - matchAt(len);
+            // an all-wild line pays as the best symbol
+            if (len === path.length && s.id === best) exact += allWild;
+
+            const pay = pays[len as 3 | 4 | 5];
+            if (pay <= 0 || exact <= 0) continue;
+            runs.push({
+              line: line.id,
+              direction: dir,
+              symbol: s.id,
+              length: len as 3 | 4 | 5,
+              probability: exact,
+              pay,
+              rtp: exact * pay,
+            });
+          }
+        }
+      }
+    }
+  } else {
+    // Ways: reels are independent, so a run over the first `len` reels pays
+    // pay × Π E[matches on reel] × P(next reel misses).
+    for (const dir of directions) {
+      const order = models.map((_, i) =>
+        dir === "ltr" ? i : models.length - 1 - i
+      );
+      const maxReels = Math.min(config.reels, 5);
+      for (const s of config.symbols) {
+        const pays = symbolPays(s);
+        if (!pays) continue;
+        const hits = new Set([s.id, ...wildIds]);
+        const expected = order.map((c) =>
+          models[c].cells.reduce(
+            (acc, row, r) => acc + row[s.id] + wildProb[c][r],
+            0
+          )
+        );
+        const miss = order.map((c) => models[c].miss(hits));
+
+        let allHit = 1,
+          allValue = 1;
+        for (let len = 1; len <= maxReels; len++) {
+          allHit *= 1 - miss[len - 1];
+          allValue *= expected[len - 1];
+          if (len < 3) continue;
+          // same combinations already paid left→right
+          if (dir === "rtl" && directions.length === 2 && len === config.reels)
+            continue;
+          const stop = len < maxReels ? miss[len] : 1;
+          const pay = pays[len as 3 | 4 | 5];
+          if (pay <= 0 || allHit * stop <= 0) continue;
+          runs.push({
+            line: "ways",
+            direction: dir,
+            symbol: s.id,
+            length: len as 3 | 4 | 5,
+            probability: allHit * stop,
+            pay,
+            rtp: pay * allValue * stop,
+          });
+        }
+      }
+    }
+  }
+
+  const baseRtp = runs.reduce((acc, r) => acc + r.rtp, 0);
+  const cellCount = config.rows * config.reels;
+  const symbols: ParSymbol[] = config.symbols.map((s) => {
+    const mine = runs.filter((r) => r.symbol === s.id);
+    const rtp = mine.reduce((acc, r) => acc + r.rtp, 0);
+    return {
+      symbol: s.id,
+      role: s.role,
+      weight: s.weight,
+      cellProbability:
+        models.reduce(
+          (acc, m) => acc + m.cells.reduce((a, row) => a + row[s.id], 0),
+          0
+        ) / cellCount,
+      winsPerSpin: mine.reduce((acc, r) => acc + r.probability, 0),
+      rtp,
+      share: baseRtp > 0 ? rtp / baseRtp : 0,
+    };
+  });
+
+  // Scatters: reels independent → convolve the per-reel scatter counts.
+  let dist = [1];
+  for (const m of models) {
+    const next = Array<number>(dist.length + m.scatterCounts.length - 1).fill(
+      0
+    );
+    dist.forEach((p, i) =>
+      m.scatterCounts.forEach((q, j) => (next[i + j] += p * q))
+    );
+    dist = next;
+  }
+  // trailing impossible counts (e.g. more scatters than the cap allows)
+  while (dist.length > 1 && dist[dist.length - 1] === 0) dist.pop();
+  const rules = config.scatter ?? DEFAULT_SCATTER_RULES;
+  const counts: ParScatterCount[] = dist.map((probability, n) => ({
+    scatters: n,
+    probability,
+    pay: scatterAward(rules.pays ?? {}, n),
+    freeSpins: scatterAward(rules.triggers, n),
+  }));
+
+  return {
+    reels: config.reels,
+    rows: config.rows,
+    generation: config.reelStrips ? "reel strips" : "weighted cells",
+    evaluation: ways ? "ways" : "lines",
+    payDirection: direction,
+    lines: ways ? [] : paylines,
+    symbols,
+    runs,
+    scatter: {
+      perReel: models.map((m) => 1 - m.scatterCounts[0]),
+      counts,
+      triggerProbability: counts
+        .filter((c) => c.freeSpins > 0)
+        .reduce((acc, c) => acc + c.probability, 0),
+      expectedFreeSpins: counts.reduce(
+        (acc, c) => acc + c.probability * c.freeSpins,
+        0
+      ),
+      rtp: counts.reduce((acc, c) => acc + c.probability * c.pay, 0),
+    },
+    winsPerSpin: runs.reduce((acc, r) => acc + r.probability, 0),
+    baseRtp,
+  };
+}
+
+/* ---------------- Exports ---------------- */
+
+function csvRow(cells: Array<string | number>): string {
+  return cells
+    .map((c) =>
+      typeof c === "string" && /[",\n]/.test(c)
+        ? `"${c.replace(/"/g, '""')}"`
+        : String(c)
+    )
+    .join(",");
+}
+
+/** Three CSV sections separated by blank lines: runs, symbol summary, scatter counts. */
+export function parSheetToCsv(sheet: ParSheet): string {
+  const out: string[] = [];
+  out.push(
+    csvRow([
+      "line",
+      "direction",
+      "symbol",
+      "length",
+      "probability",
+      "pay",
+      "rtp",
+    ])
+  );
+  for (const r of sheet.runs) {
+    out.push(
+      csvRow([
+        r.line,
+        r.direction,
+        r.symbol,
+        r.length,
+        r.probability,
+        r.pay,
+        r.rtp,
+      ])
+    );
+  }
+  out.push("");
+  out.push(
+    csvRow(["symbol", "role", "weight", "wins_per_spin", "rtp", "share"])
+  );
+  for (const s of sheet.symbols) {
+    out.push(
+      csvRow([s.symbol, s.role, s.weight, s.winsPerSpin, s.rtp, s.share])
+    );
+  }
+  out.push(csvRow(["TOTAL", "", "", sheet.winsPerSpin, sheet.baseRtp, 1]));
+  out.push("");
+  out.push(csvRow(["scatters", "probability", "pay", "free_spins"]));
+  for (const c of sheet.scatter.counts) {
+    out.push(csvRow([c.scatters, c.probability, c.pay, c.freeSpins]));
+  }
+  return out.join("\n") + "\n";
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function pct(x: number, digits = 4): string {
+  return `${(x * 100).toFixed(digits)}%`;
+}
+
+function oneIn(p: number): string {
+  return p > 0
+    ? `1 in ${(1 / p).toLocaleString("en", { maximumFractionDigits: 1 })}`
+    : "—";
+}
+
+function table(head: string[], rows: string[][]): string {
+  const th = head.map((h) => `<th>${escapeHtml(h)}</th>`).join("");
+  const body = rows
+    .map(
+      (r) => `<tr>${r.map((c) => `<td>${escapeHtml(c)}</td>`).join("")}</tr>`
+    )
+    .join("\n");
+  return `<table><thead><tr>${th}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+function describeEvaluation(sheet: ParSheet): string {
+  const dir =
+    sheet.payDirection === "both"
+      ? "pays both ways"
+      : sheet.payDirection === "rtl"
+      ? "right→left"
+      : "left→right";
+  if (sheet.evaluation === "ways") {
+    const ways = Math.pow(sheet.rows, Math.min(sheet.reels, 5));
+    return `${ways.toLocaleString("en")} ways, ${dir}`;
+  }
+  return `${sheet.lines.length} paylines, ${dir}`;
+}
+
+/** Self-contained printable page for sign-off. */
+export function parSheetToHtml(sheet: ParSheet, title = "PAR sheet"): string {
+  const summary = table(
+    [
+      "Symbol",
+      "Role",
+      "Weight",
+      "Cell probability",
+      "Wins / spin",
+      "RTP",
+      "Share",
+    ],
+    sheet.symbols.map((s) => [
+      s.symbol,
+      s.role,
+      String(s.weight),
+      pct(s.cellProbability),
+      s.winsPerSpin.toFixed(6),
+      pct(s.rtp),
+      pct(s.share, 2),
+    ])
+  );
+  const scatter = table(
+    ["Scatters on grid", "Probability", "Odds", "Pay (× bet)", "Free spins"],
+    sheet.scatter.counts.map((c) => [
+      String(c.scatters),
+      pct(c.probability),
+      oneIn(c.probability),
+      String(c.pay),
+      String(c.freeSpins),
+    ])
+  );
+  const runs = table(
+    [
+      "Line",
+      "Direction",
+      "Symbol",
+      "Run",
+      "Probability",
+      "Odds",
+      "Pay (× bet)",
+      "RTP",
+    ],
+    sheet.runs.map((r) => [
+      r.line,
+      r.direction === "ltr" ? "left→right" : "right→left",
+      r.symbol,
+      `${r.length} in a row`,
+      pct(r.probability, 6),
+      oneIn(r.probability),
+      String(r.pay),
+      pct(r.rtp, 6),
+    ])
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 24px; color: #111; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { border: 1px solid #bbb; padding: 3px 6px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  thead { background: #eee; }
+  tr { break-inside: avoid; }
+  .totals { font-size: 14px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="totals">
+  ${sheet.reels}×${sheet.rows} grid (${sheet.generation}), ${describeEvaluation(
+    sheet
+  )}.<br />
+  Base-game line RTP: <strong>${pct(sheet.baseRtp)}</strong> ·
+  scatter pays RTP: ${pct(sheet.scatter.rtp)} ·
+  paying lines per spin: ${sheet.winsPerSpin.toFixed(6)} ·
+  free-spins trigger: ${pct(sheet.scatter.triggerProbability)} (${oneIn(
+    sheet.scatter.triggerProbability
+  )}) ·
+  free spins per base spin: ${sheet.scatter.expectedFreeSpins.toFixed(6)}
+</p>
+<h2>RTP by symbol</h2>
+${summary}
+<h2>Scatter pays and triggers</h2>
+${scatter}
+<h2>Runs by line</h2>
+${runs}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,309 @@
+// src/responsible.ts
+//
+// Responsible-gaming controls. ResponsibleGaming is a WalletGuard: SlotMachine
+// asks it before every deposit and base spin, and reports stakes and wins back.
+// Tightening a limit applies at once; loosening waits LIMIT_COOLING_OFF_MS.
+
+import type { WalletGuard } from "./types";
+import { Money } from "./money";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Loosened limits (higher or removed) only take effect after this long. */
+export const LIMIT_COOLING_OFF_MS = DAY;
+/** A session ends after this much inactivity; the next spin starts a new one. */
+export const SESSION_IDLE_MS = 30 * MINUTE;
+
+export type DepositPeriod = "daily" | "weekly" | "monthly";
+
+/** Rolling windows: the last 24 hours, 7 days and 30 days. */
+export const DEPOSIT_WINDOWS: Record<DepositPeriod, number> = {
+  daily: DAY,
+  weekly: 7 * DAY,
+  monthly: 30 * DAY,
+};
+
+/** Self-imposed limits; null = no limit. */
+export interface RgLimits {
+  deposit: Record<DepositPeriod, number | null>; // cents
+  sessionMinutes: number | null;
+  sessionLossCents: number | null; // stakes minus wins within a session
+  realityCheckMinutes: number | null;
+}
+
+export interface RgSession {
+  startedAt: number;
+  lastActiveAt: number;
+  stakedCents: number;
+  wonCents: number;
+  lastRealityCheckAt: number;
+}
+
+export interface RgState {
+  limits: RgLimits;
+  pending: { limits: RgLimits; effectiveAt: number } | null;
+  deposits: Array<{ at: number; cents: number }>; // within the monthly window
+  blockedUntil: number | null; // cooldown or self-exclusion end
+  blockReason: "cooldown" | "exclusion" | null;
+  session: RgSession | null;
+}
+
+export const NO_LIMITS: RgLimits = {
+  deposit: { daily: null, weekly: null, monthly: null },
+  sessionMinutes: null,
+  sessionLossCents: null,
+  realityCheckMinutes: 60,
+};
+
+function emptyState(): RgState {
+  return {
+    limits: NO_LIMITS,
+    pending: null,
+    deposits: [],
+    blockedUntil: null,
+    blockReason: null,
+    session: null,
+  };
+}
+
+function isLooser(next: number | null, current: number | null): boolean {
+  return current !== null && (next === null || next > current);
+}
+
+function mapLimits(
+  a: RgLimits,
+  b: RgLimits,
+  f: (x: number | null, y: number | null) => number | null
+): RgLimits {
+  return {
+    deposit: {
+      daily: f(a.deposit.daily, b.deposit.daily),
+      weekly: f(a.deposit.weekly, b.deposit.weekly),
+      monthly: f(a.deposit.monthly, b.deposit.monthly),
+    },
+    sessionMinutes: f(a.sessionMinutes, b.sessionMinutes),
+    sessionLossCents: f(a.sessionLossCents, b.sessionLossCents),
+    realityCheckMinutes: f(a.realityCheckMinutes, b.realityCheckMinutes),
+  };
+}
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleString();
+}
+
+export class ResponsibleGaming implements WalletGuard {
+  private state: RgState;
+  private now: () => number;
+  private money: Money;
+
+  /** `money` formats amounts in refusal messages (default: euro). */
+  constructor(
+    saved?: RgState | null,
+    now: () => number = Date.now,
+    money: Money = new Money()
+  ) {
+    this.state = saved ? structuredClone(saved) : emptyState();
+    this.now = now;
+    this.money = money;
+  }
+
+  /** Plain-data copy for the save file. */
+  getState(): RgState {
+    this.applyPending();
+    return structuredClone(this.state);
+  }
+
+  getLimits(): RgLimits {
+    this.applyPending();
+    return this.state.limits;
+  }
+
+  /** Loosened limits waiting for the cooling-off period, if any. */
+  getPending(): { limits: RgLimits; effectiveAt: number } | null {
+    this.applyPending();
+    return this.state.pending;
+  }
+
+  /**
+   * Change limits. Anything stricter applies immediately; anything looser is
+   * queued and replaces the current value after LIMIT_COOLING_OFF_MS.
+   */
+  setLimits(next: RgLimits): void {
+    this.applyPending();
+    const current = this.state.limits;
+    this.state.limits = mapLimits(current, next, (cur, nxt) =>
+      isLooser(nxt, cur) ? cur : nxt
+    );
+    const loosens = JSON.stringify(this.state.limits) !== JSON.stringify(next);
+    this.state.pending = loosens
+      ? { limits: next, effectiveAt: this.now() + LIMIT_COOLING_OFF_MS }
+      : null;
+  }
+
+  /** Deposits still allowed in each window (null = unlimited). */
+  depositAllowance(): Record<DepositPeriod, number | null> {
+    this.applyPending();
+    const now = this.now();
+    const out = { daily: null, weekly: null, monthly: null } as Record<
+      DepositPeriod,
+      number | null
+    >;
+    for (const period of Object.keys(DEPOSIT_WINDOWS) as DepositPeriod[]) {
+      const limit = this.state.limits.deposit[period];
+      if (limit === null) continue;
+      const since = now - DEPOSIT_WINDOWS[period];
+      const used = this.state.deposits
+        .filter((d) => d.at > since)
+        .reduce((sum, d) => sum + d.cents, 0);
+      out[period] = Math.max(0, limit - used);
+    }
+    return out;
+  }
+
+  /** Pause all play until `until`; an active block can only be extended. */
+  block(durationMs: number, reason: "cooldown" | "exclusion"): void {
+    if (!(durationMs > 0)) throw new Error("Break length must be positive");
+    const until = this.now() + durationMs;
+    if (this.state.blockedUntil !== null && this.state.blockedUntil >= until)
+      return;
+    this.state.blockedUntil = until;
+    this.state.blockReason = reason;
+  }
+
+  /** End of the current cooldown/self-exclusion, or null when play is allowed. */
+  blockedUntil(): number | null {
+    const until = this.state.blockedUntil;
+    if (until !== null && until <= this.now()) {
+      this.state.blockedUntil = null;
+      this.state.blockReason = null;
+    }
+    return this.state.blockedUntil;
+  }
+
+  /** Time played and net result (wins minus stakes) of the current session. */
+  sessionSummary(): { minutes: number; netCents: number } {
+    const s = this.currentSession();
+    return {
+      minutes: s ? Math.floor((this.now() - s.startedAt) / MINUTE) : 0,
+      netCents: s ? s.wonCents - s.stakedCents : 0,
+    };
+  }
+
+  /** True when a reality check is due and play should pause until it is acknowledged. */
+  realityCheckDue(): boolean {
+    const s = this.currentSession();
+    const every = this.getLimits().realityCheckMinutes;
+    return (
+      !!s &&
+      every !== null &&
+      this.now() - s.lastRealityCheckAt >= every * MINUTE
+    );
+  }
+
+  acknowledgeRealityCheck(): void {
+    const s = this.currentSession();
+    if (s) s.lastRealityCheckAt = this.now();
+  }
+
+  /* ---------------- WalletGuard ---------------- */
+
+  beforeDeposit(cents: number): void {
+    this.assertNotBlocked();
+    const allowance = this.depositAllowance();
+    for (const period of Object.keys(allowance) as DepositPeriod[]) {
+      const left = allowance[period];
+      if (left !== null && cents > left)
+        throw new Error(
+          `Deposit exceeds your ${period} limit (${this.money.format(
+            left
+          )} left)`
+        );
+    }
+  }
+
+  afterDeposit(cents: number): void {
+    const now = this.now();
+    const since = now - DEPOSIT_WINDOWS.monthly;
+    this.state.deposits = [
+      ...this.state.deposits.filter((d) => d.at > since),
+      { at: now, cents },
+    ];
+  }
+
+  beforeSpin(betCents: number): void {
+    this.assertNotBlocked();
+    const limits = this.getLimits();
+    const s = this.currentSession();
+    if (!s) return;
+    if (
+      limits.sessionMinutes !== null &&
+      this.now() - s.startedAt >= limits.sessionMinutes * MINUTE
+    )
+      throw new Error(
+        `Session time limit reached (${
+          limits.sessionMinutes
+        } min). Take a break of at least ${SESSION_IDLE_MS / MINUTE} minutes.`
+      );
+    if (
+      limits.sessionLossCents !== null &&
+      s.stakedCents - s.wonCents + betCents > limits.sessionLossCents
+    )
+      throw new Error("Session loss limit reached");
+    if (this.realityCheckDue())
+      throw new Error("Reality check: please review your session first");
+  }
+
+  afterSpin(betCents: number, winCents: number): void {
+    const s = this.touchSession();
+    s.stakedCents += betCents;
+    s.wonCents += winCents;
+  }
+
+  afterWinnings(cents: number): void {
+    this.touchSession().wonCents += cents;
+  }
+
+  /* ---------------- internals ---------------- */
+
+  private assertNotBlocked(): void {
+    const until = this.blockedUntil();
+    if (until === null) return;
+    throw new Error(
+      this.state.blockReason === "exclusion"
+        ? `You are self-excluded until ${formatTime(until)}`
+        : `You are taking a break until ${formatTime(until)}`
+    );
+  }
+
+  private applyPending(): void {
+    const p = this.state.pending;
+    if (p && p.effectiveAt <= this.now()) {
+      this.state.limits = p.limits;
+      this.state.pending = null;
+    }
+  }
+
+  /** The running session, or null if there is none or it went idle. */
+  private currentSession(): RgSession | null {
+    const s = this.state.session;
+    if (s && this.now() - s.lastActiveAt > SESSION_IDLE_MS)
+      this.state.session = null;
+    return this.state.session;
+  }
+
+  private touchSession(): RgSession {
+    const now = this.now();
+    const s = this.currentSession() ?? {
+      startedAt: now,
+      lastActiveAt: now,
+      stakedCents: 0,
+      wonCents: 0,
+      lastRealityCheckAt: now,
+    };
+    s.lastActiveAt = now;
+    this.state.session = s;
+    return s;
+  }
+}
@@ -4,10 +4,15 @@ export interface Rng {
   next(): number;
 } // returns [0, 1)
 
+/** An Rng whose position can be captured and later resumed with createMulberry32(state). */
+export interface SeededRng extends Rng {
+  state(): number;
+}
+
 export const defaultRng: Rng = { next: () => Math.random() };
 
 // Optional seeded RNG for reproducible tests
-export function createMulberry32(seed: number): Rng {
+export function createMulberry32(seed: number): SeededRng {
   let a = seed >>> 0;
   return {
     next() {
@@ -17,5 +22,8 @@ export function createMulberry32(seed: number): Rng {
       t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
       return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
     },
+    state() {
+      return a >>> 0;
+    },
   };
 }
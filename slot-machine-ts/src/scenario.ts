@@ -0,0 +1,195 @@
+// src/scenario.ts
+//
+// QA scenarios: exact outcomes queued ahead of play. Installed with
+// SlotMachine.setForcedOutcomes(), a ScenarioQueue hands out the next queued
+// base grid or bonus grid-plus-wilds instead of a random draw; scoring, the
+// wallet, jackpots, the bonus session and presentation all run as usual.
+// main.ts only wires this up in dev builds.
+
+import type {
+  ForcedBonusSpin,
+  ForcedOutcomes,
+  SlotConfig,
+  SymbolId,
+} from "./types";
+
+/** A named set of outcomes, typically from a JSON file in scenarios/. */
+export interface Scenario {
+  name: string;
+  description?: string;
+  spins?: SymbolId[][][]; // base grids, [row][col], for the next spin() calls
+  bonusSpins?: ForcedBonusSpin[]; // for the next free spins, in order
+}
+
+function isObject(x: unknown): x is Record<string, unknown> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+function checkShape(
+  grid: unknown,
+  config: SlotConfig,
+  where: string,
+  cell: (x: unknown) => boolean,
+  expected: string
+): string[] {
+  const { rows, reels } = config;
+  if (
+    !Array.isArray(grid) ||
+    grid.length !== rows ||
+    !grid.every((row) => Array.isArray(row) && row.length === reels)
+  )
+    return [`${where} must be ${rows} rows of ${reels} ${expected}`];
+  return (grid as unknown[][]).flatMap((row, r) =>
+    row.flatMap((x, c) =>
+      cell(x) ? [] : [`${where} [${r}][${c}]: ${JSON.stringify(x)}`]
+    )
+  );
+}
+
+/** Problems with a base grid for this game: its shape and unknown symbol ids. */
+export function validateGrid(
+  grid: unknown,
+  config: SlotConfig,
+  where = "grid"
+): string[] {
+  const ids = new Set(config.symbols.map((s) => s.id));
+  return checkShape(
+    grid,
+    config,
+    where,
+    (x) => typeof x === "string" && ids.has(x),
+    "symbol ids"
+  );
+}
+
+/** Problems with a wilds layout: its shape and multipliers that are not whole numbers >= 0. */
+export function validateWilds(
+  wilds: unknown,
+  config: SlotConfig,
+  where = "wilds"
+): string[] {
+  return checkShape(
+    wilds,
+    config,
+    where,
+    (x) => typeof x === "number" && Number.isInteger(x) && x >= 0,
+    "multipliers (0 = none)"
+  );
+}
+
+/** Check a scenario against the game it will run in; an empty array means it can be queued. */
+export function validateScenario(raw: unknown, config: SlotConfig): string[] {
+  if (!isObject(raw)) return ["Scenario must be an object"];
+  const issues: string[] = [];
+  if (typeof raw.name !== "string" || raw.name.trim() === "")
+    issues.push("name must be a non-empty string");
+  if (raw.description !== undefined && typeof raw.description !== "string")
+    issues.push("description must be a string");
+
+  if (raw.spins !== undefined) {
+    if (!Array.isArray(raw.spins)) issues.push("spins must be an array");
+    else
+      raw.spins.forEach((grid, i) =>
+        issues.push(...validateGrid(grid, config, `spins[${i}]`))
+      );
+  }
+  if (raw.bonusSpins !== undefined) {
+    if (!Array.isArray(raw.bonusSpins))
+      issues.push("bonusSpins must be an array");
+    else
+      raw.bonusSpins.forEach((spin, i) => {
+        if (!isObject(spin)) issues.push(`bonusSpins[${i}] must be an object`);
+        else
+          issues.push(
+            ...validateGrid(spin.grid, config, `bonusSpins[${i}].grid`),
+            ...validateWilds(spin.wilds, config, `bonusSpins[${i}].wilds`)
+          );
+      });
+  }
+  if (raw.spins === undefined && raw.bonusSpins === undefined)
+    issues.push("scenario needs spins or bonusSpins");
+  return issues;
+}
+
+/** Validate and return a Scenario; throws with every problem listed. */
+export function parseScenario(raw: unknown, config: SlotConfig): Scenario {
+  const issues = validateScenario(raw, config);
+  if (issues.length > 0)
+    throw new Error(`Invalid scenario:\n- ${issues.join("\n- ")}`);
+  return raw as Scenario;
+}
+
+/**
+ * Read a grid typed as text: one line per row, cells separated by spaces or
+ * commas. Symbol ids match case-insensitively; anything else is kept as typed
+ * for validateGrid to report.
+ */
+export function parseGridText(text: string, config: SlotConfig): string[][] {
+  const ids = new Map(config.symbols.map((s) => [s.id.toLowerCase(), s.id]));
+  return text
+    .trim()
+    .split("\n")
+    .map((line) =>
+      line
+        .split(/[\s,]+/)
+        .filter((cell) => cell !== "")
+        .map((cell) => ids.get(cell.toLowerCase()) ?? cell)
+    );
+}
+
+/** Read a wilds layout typed as text, laid out like parseGridText. */
+export function parseWildsText(text: string): number[][] {
+  return text
+    .trim()
+    .split("\n")
+    .map((line) =>
+      line
+        .split(/[\s,]+/)
+        .filter((cell) => cell !== "")
+        .map(Number)
+    );
+}
+
+/** Outcomes waiting to be played: base grids and free spins are separate queues. */
+export class ScenarioQueue implements ForcedOutcomes {
+  private spins: SymbolId[][][] = [];
+  private bonusSpins: ForcedBonusSpin[] = [];
+
+  get pendingSpins(): number {
+    return this.spins.length;
+  }
+
+  get pendingBonusSpins(): number {
+    return this.bonusSpins.length;
+  }
+
+  queueSpin(grid: SymbolId[][]): void {
+    this.spins.push(grid.map((row) => [...row]));
+  }
+
+  queueBonusSpin(spin: ForcedBonusSpin): void {
+    this.bonusSpins.push({
+      grid: spin.grid.map((row) => [...row]),
+      wilds: spin.wilds.map((row) => [...row]),
+    });
+  }
+
+  /** Append everything a scenario forces, after anything already queued. */
+  load(scenario: Scenario): void {
+    for (const grid of scenario.spins ?? []) this.queueSpin(grid);
+    for (const spin of scenario.bonusSpins ?? []) this.queueBonusSpin(spin);
+  }
+
+  clear(): void {
+    this.spins = [];
+    this.bonusSpins = [];
+  }
+
+  nextGrid(): SymbolId[][] | null {
+    return this.spins.shift() ?? null;
+  }
+
+  nextBonusSpin(): ForcedBonusSpin | null {
+    return this.bonusSpins.shift() ?? null;
+  }
+}
@@ -0,0 +1,265 @@
+// src/simulator.ts
+
+import type { RoundMode, SlotConfig, WildRules } from "./types";
+import {
+  SlotMachine,
+  DEFAULT_BONUS_BUY,
+  DEFAULT_WILD_RULES,
+  jackpotTotal,
+  playRound,
+  roundCostCents,
+  anteSupported,
+} from "./slotmachine";
+import { createMulberry32 } from "./rng";
+
+export interface SimulationOptions {
+  spins: number;
+  seed: number;
+  betCents?: number; // default 100
+  wildRules?: WildRules;
+  ante?: boolean; // play every spin with the ante bet
+}
+
+/** Upper bounds (win ÷ bet, exclusive) of the round-win histogram buckets. Last bucket is open-ended. */
+export const WIN_BUCKETS: readonly number[] = [
+  0, 1, 2, 5, 10, 20, 50, 100, 500,
+];
+
+/** Raw, mergeable counters from one simulation run (all money in cents). */
+export interface SimulationStats {
+  spins: number;
+  betCents: number;
+  totalBetCents: number;
+  baseWinCents: number;
+  bonusWinCents: number;
+  jackpotWinCents: number; // progressive pools paid out (seeds + contributions)
+  hits: number; // rounds with any win (base or bonus)
+  triggers: Record<number, number>; // bonus triggers by the scatter count that started them
+  bonusSessions: number;
+  bonusSpinsPlayed: number;
+  bonusRetriggers: number;
+  maxWinCents: number; // biggest single round (base + its bonus)
+  histogram: number[]; // zero-win rounds first, then one count per WIN_BUCKETS gap, then open-ended
+}
+
+/** Human-facing report derived from SimulationStats. Ratios are 0..1, not percentages. */
+export interface SimulationReport {
+  spins: number;
+  betCents: number;
+  rtp: number;
+  baseRtp: number;
+  bonusRtp: number;
+  jackpotRtp: number;
+  hitFrequency: number;
+  triggerRate: { any: number; byCount: Record<number, number> };
+  avgBonusSpins: number;
+  avgBonusWinCents: number;
+  maxWinCents: number;
+  maxWinX: number;
+  histogram: Array<{ label: string; count: number; share: number }>;
+}
+
+/** What one way into a round costs and pays back on average (see estimateModes). */
+export interface ModeEstimate {
+  mode: RoundMode;
+  costCents: number;
+  expectedReturnCents: number; // mean payout per round: base, jackpots and bonus
+  rtp: number; // expectedReturnCents / costCents
+}
+
+export function emptyStats(betCents = 100): SimulationStats {
+  return {
+    spins: 0,
+    betCents,
+    totalBetCents: 0,
+    baseWinCents: 0,
+    bonusWinCents: 0,
+    jackpotWinCents: 0,
+    hits: 0,
+    triggers: {},
+    bonusSessions: 0,
+    bonusSpinsPlayed: 0,
+    bonusRetriggers: 0,
+    maxWinCents: 0,
+    histogram: Array<number>(WIN_BUCKETS.length + 1).fill(0),
+  };
+}
+
+/** Play `spins` base rounds (each triggered bonus played to the end) on a seeded machine. */
+export function simulate(
+  config: SlotConfig,
+  options: SimulationOptions
+): SimulationStats {
+  const betCents = options.betCents ?? 100;
+  const rules = options.wildRules ?? DEFAULT_WILD_RULES;
+  const stats = emptyStats(betCents);
+
+  // Balance large enough that the run can never go broke, ante included.
+  const stakeCents = roundCostCents(config, betCents, {
+    type: options.ante ? "ante" : "spin",
+  });
+  const machine = new SlotMachine(
+    config,
+    { balanceCents: stakeCents * Math.max(1, options.spins), betCents },
+    createMulberry32(options.seed)
+  );
+  machine.setAnte(options.ante ?? false);
+
+  for (let i = 0; i < options.spins; i++) {
+    const result = machine.spin();
+    const jackpotCents = jackpotTotal(result);
+    let roundWin = result.totalWinCents + jackpotCents;
+    stats.baseWinCents += result.totalWinCents;
+    stats.jackpotWinCents += jackpotCents;
+
+    if (result.freeSpinsAwarded > 0) {
+      const n = result.scatterCount;
+      stats.triggers[n] = (stats.triggers[n] ?? 0) + 1;
+      stats.bonusSessions++;
+
+      const session = machine.startBonus(
+        result.freeSpinsAwarded,
+        betCents,
+        rules
+      );
+      while (!session.isComplete) {
+        const spin = session.nextSpin();
+        if (spin.retriggerSpins > 0) stats.bonusRetriggers++;
+      }
+      stats.bonusSpinsPlayed += session.spinsPlayed;
+      stats.bonusWinCents += session.bonusTotalCents;
+      roundWin += session.bonusTotalCents;
+      // keep the wallet honest so long runs never starve
+      if (session.bonusTotalCents > 0)
+        machine.creditWinnings(session.bonusTotalCents);
+    }
+
+    stats.spins++;
+    stats.totalBetCents += result.stakeCents;
+    if (roundWin > 0) stats.hits++;
+    if (roundWin > stats.maxWinCents) stats.maxWinCents = roundWin;
+    stats.histogram[bucketIndex(roundWin / betCents)]++;
+  }
+
+  return stats;
+}
+
+function addCounts(
+  a: Record<number, number>,
+  b: Record<number, number>
+): Record<number, number> {
+  const sum = { ...a };
+  for (const [n, count] of Object.entries(b))
+    sum[Number(n)] = (sum[Number(n)] ?? 0) + count;
+  return sum;
+}
+
+/** Combine counters from independent runs (e.g. one per worker thread). */
+export function mergeStats(
+  a: SimulationStats,
+  b: SimulationStats
+): SimulationStats {
+  if (a.betCents !== b.betCents)
+    throw new Error("Cannot merge runs with different bets");
+  return {
+    spins: a.spins + b.spins,
+    betCents: a.betCents,
+    totalBetCents: a.totalBetCents + b.totalBetCents,
+    baseWinCents: a.baseWinCents + b.baseWinCents,
+    bonusWinCents: a.bonusWinCents + b.bonusWinCents,
+    jackpotWinCents: a.jackpotWinCents + b.jackpotWinCents,
+    hits: a.hits + b.hits,
+    triggers: addCounts(a.triggers, b.triggers),
+    bonusSessions: a.bonusSessions + b.bonusSessions,
+    bonusSpinsPlayed: a.bonusSpinsPlayed + b.bonusSpinsPlayed,
+    bonusRetriggers: a.bonusRetriggers + b.bonusRetriggers,
+    maxWinCents: Math.max(a.maxWinCents, b.maxWinCents),
+    histogram: a.histogram.map((n, i) => n + (b.histogram[i] ?? 0)),
+  };
+}
+
+export function summarize(stats: SimulationStats): SimulationReport {
+  const spins = stats.spins || 1;
+  const wagered = stats.totalBetCents || 1;
+  const sessions = stats.bonusSessions || 1;
+
+  return {
+    spins: stats.spins,
+    betCents: stats.betCents,
+    rtp:
+      (stats.baseWinCents + stats.bonusWinCents + stats.jackpotWinCents) /
+      wagered,
+    baseRtp: stats.baseWinCents / wagered,
+    bonusRtp: stats.bonusWinCents / wagered,
+    jackpotRtp: stats.jackpotWinCents / wagered,
+    hitFrequency: stats.hits / spins,
+    triggerRate: {
+      any: stats.bonusSessions / spins,
+      byCount: Object.fromEntries(
+        Object.entries(stats.triggers).map(([n, count]) => [n, count / spins])
+      ),
+    },
+    avgBonusSpins: stats.bonusSpinsPlayed / sessions,
+    avgBonusWinCents: stats.bonusWinCents / sessions,
+    maxWinCents: stats.maxWinCents,
+    maxWinX: stats.maxWinCents / stats.betCents,
+    histogram: stats.histogram.map((count, i) => ({
+      label: bucketLabel(i),
+      count,
+      share: count / spins,
+    })),
+  };
+}
+
+/**
+ * Price and simulated return of a plain spin, the ante bet (weighted-cell
+ * games with scatters) and every bonus-buy package, `options.spins` rounds each. Use it to
+ * set ante and buy prices that keep the RTP in line with the base game.
+ */
+export function estimateModes(
+  config: SlotConfig,
+  options: SimulationOptions
+): ModeEstimate[] {
+  const betCents = options.betCents ?? 100;
+  const modes: RoundMode[] = [
+    { type: "spin" },
+    ...(anteSupported(config) ? [{ type: "ante" } as const] : []),
+    ...(config.bonusBuy ?? DEFAULT_BONUS_BUY).map(
+      (o): RoundMode => ({ type: "buy", spins: o.spins })
+    ),
+  ];
+
+  return modes.map((mode, i) => {
+    const costCents = roundCostCents(config, betCents, mode);
+    const machine = new SlotMachine(
+      config,
+      { balanceCents: costCents * Math.max(1, options.spins), betCents },
+      createMulberry32((options.seed + i) >>> 0)
+    );
+    let paidCents = 0;
+    for (let n = 0; n < options.spins; n++)
+      paidCents += playRound(machine, mode).totalWinCents;
+    const expectedReturnCents = paidCents / Math.max(1, options.spins);
+    return {
+      mode,
+      costCents,
+      expectedReturnCents,
+      rtp: expectedReturnCents / costCents,
+    };
+  });
+}
+
+/** Histogram slot for a round win expressed as a multiple of the bet. */
+function bucketIndex(x: number): number {
+  if (x <= 0) return 0;
+  for (let i = 1; i < WIN_BUCKETS.length; i++) {
+    if (x < WIN_BUCKETS[i]) return i;
+  }
+  return WIN_BUCKETS.length;
+}
+
+function bucketLabel(i: number): string {
+  if (i === 0) return "0x";
+  if (i === WIN_BUCKETS.length) return `${WIN_BUCKETS[i - 1]}x+`;
+  return `${WIN_BUCKETS[i - 1]}x–${WIN_BUCKETS[i]}x`;
+}
@@ -4,88 +4,377 @@ import {
   type SymbolDef,
   type SymbolId,
   type Wallet,
-  type PayoutTable,
   type LineWin,
   type ScoredGrid,
+  type WildRules,
+  type BonusSpinResult,
+  type Payline,
+  type PayDirection,
+  type EvaluationMode,
+  type GridDraw,
+  type PlayedRound,
+  type BonusSnapshot,
+  type WalletGuard,
+  type AnteRules,
+  type BonusBuyOption,
+  type RoundMode,
+  type CascadeRules,
+  type CascadeStep,
+  type CurrencyConfig,
+  type WinTier,
+  type ForcedOutcomes,
+  type ForcedBonusSpin,
+  type ScatterRules,
+  type ScatterTable,
+  type ScatterWin,
 } from "./types";
 import { type Rng, defaultRng } from "./rng";
+import { parseConfig, symbolMap, symbolPays } from "./config";
+import { GambleSession, DEFAULT_GAMBLE_RULES } from "./gamble";
+import { JackpotPools, DEFAULT_JACKPOTS } from "./jackpot";
+import { DEFAULT_CURRENCY } from "./money";
+import { EventBus, type EngineEvents, type WalletReason } from "./events";
 
 export class SlotMachine {
   private config: SlotConfig;
   private wallet: Wallet;
   private rng: Rng;
 
-  private cumulative: { id: SymbolId; cum: number }[];
-  private totalWeight: number;
+  private weights: WeightTable;
+  private anteWeights: WeightTable | null; // null in reel-strip mode: no ante
+  private ante = false;
+  private symbols: Map<SymbolId, SymbolDef>;
+  private maxScattersPerReel: number;
+  private scatterRules: ScatterRules;
+  private paylines: Payline[];
+  private payDirection: PayDirection;
+  private evaluation: EvaluationMode;
+  private strips: { base: SymbolId[][]; bonus: SymbolId[][] } | null;
+  private guard: WalletGuard | null = null;
+  private forced: ForcedOutcomes | null = null;
+  private jackpots: JackpotPools;
+  /** Everything this machine and its bonus sessions do, for any subscriber (see events.ts). */
+  readonly events = new EventBus<EngineEvents>();
 
   constructor(config: SlotConfig, wallet: Wallet, rng: Rng = defaultRng) {
-    if (config.reels <= 0 || config.rows <= 0)
-      throw new Error("rows/reels must be > 0");
-    if (config.symbols.length === 0) throw new Error("symbols required");
-
-    this.config = config;
+    this.config = parseConfig(config);
     this.wallet = wallet;
     this.rng = rng;
+    this.symbols = symbolMap(config);
+    this.maxScattersPerReel = config.maxScattersPerReel ?? 1;
+    this.scatterRules = config.scatter ?? DEFAULT_SCATTER_RULES;
+    this.paylines = resolvePaylines(config);
+    this.payDirection = config.payDirection ?? "ltr";
+    this.evaluation = config.evaluation ?? "lines";
+    this.strips = config.reelStrips
+      ? {
+          base: config.reelStrips.base,
+          bonus: config.reelStrips.bonus ?? config.reelStrips.base,
+        }
+      : null;
 
-    this.totalWeight = config.symbols.reduce((acc, s) => acc + s.weight, 0);
-    let running = 0;
-    this.cumulative = config.symbols.map((s) => {
-      running += s.weight;
-      return { id: s.id, cum: running };
-    });
+    this.weights = weightTable(config.symbols);
+    this.anteWeights = !anteSupported(config)
+      ? null
+      : weightTable(
+          config.symbols,
+          (config.ante ?? DEFAULT_ANTE).scatterWeightMultiplier
+        );
+    this.jackpots = new JackpotPools(
+      config.jackpots ?? DEFAULT_JACKPOTS,
+      this.bestFiveSymbol()
+    );
+  }
+
+  getConfig(): Readonly<SlotConfig> {
+    return this.config;
+  }
+
+  /** The currency every *Cents amount is in, with its bet ladder. */
+  getCurrency(): Readonly<CurrencyConfig> {
+    return this.config.currency ?? DEFAULT_CURRENCY;
   }
 
   getWallet(): Readonly<Wallet> {
     return { ...this.wallet };
   }
 
+  /** Progressive pools fed by this machine's base bets; restore saved values through it. */
+  getJackpots(): JackpotPools {
+    return this.jackpots;
+  }
+
+  /** Whether the ante bet can be switched on (weighted-cell games with scatters only). */
+  get anteAvailable(): boolean {
+    return this.anteWeights !== null;
+  }
+
+  isAnteOn(): boolean {
+    return this.ante;
+  }
+
+  /** Ante bet: every base spin costs more and draws scatters more often. */
+  setAnte(on: boolean): void {
+    if (on && !this.anteAvailable)
+      throw new Error("Ante bet is not available in this game");
+    this.ante = on;
+  }
+
+  /** What the next base spin will charge: the bet plus any ante. */
+  spinCostCents(): number {
+    return roundCostCents(this.config, this.wallet.betCents, {
+      type: this.ante ? "ante" : "spin",
+    });
+  }
+
+  /** Celebrated win sizes, smallest first; see winTierFor. */
+  getWinTiers(): readonly WinTier[] {
+    return this.config.winTiers ?? DEFAULT_WIN_TIERS;
+  }
+
+  /** Scatter pays, free-spin triggers and retriggers. */
+  getScatterRules(): Readonly<ScatterRules> {
+    return this.scatterRules;
+  }
+
+  /** Bonus-buy packages on offer; price with roundCostCents or bonusBuyCostCents. */
+  getBonusBuyOptions(): readonly BonusBuyOption[] {
+    return this.config.bonusBuy ?? DEFAULT_BONUS_BUY;
+  }
+
+  bonusBuyCostCents(spins: number): number {
+    return roundCostCents(this.config, this.wallet.betCents, {
+      type: "buy",
+      spins,
+    });
+  }
+
   setBetCents(newBet: number): void {
     if (!Number.isInteger(newBet) || newBet <= 0)
       throw new Error("Bet must be a positive integer (cents)");
+    const ladder = this.getCurrency().betLadder;
+    if (!ladder.includes(newBet))
+      throw new Error(`Bet must be one of ${ladder.join(", ")} (cents)`);
     this.wallet.betCents = newBet;
   }
 
+  /** Install responsible-gaming checks (deposit limits, session limits, breaks). */
+  setGuard(guard: WalletGuard | null): void {
+    this.guard = guard;
+  }
+
+  /** QA only: take grids from `forced` while it has any queued. */
+  setForcedOutcomes(forced: ForcedOutcomes | null): void {
+    this.forced = forced;
+  }
+
+  /** The next queued free spin, if any. Used by BonusSession. */
+  nextForcedBonusSpin(): ForcedBonusSpin | null {
+    return this.forced?.nextBonusSpin() ?? null;
+  }
+
+  /**
+   * Throw if a round costing `stakeCents` can't start now: not enough balance,
+   * or the guard blocks play. spin() and buyBonus() run the same check; call it
+   * first to do nothing irreversible (like using up a fair nonce) for a refused round.
+   */
+  assertCanStake(stakeCents: number): void {
+    if (stakeCents > this.wallet.balanceCents)
+      throw new Error("Insufficient balance");
+    this.guard?.beforeSpin(stakeCents);
+  }
+
+  /** Player deposit; subject to the guard's deposit limits. */
   addFunds(cents: number): void {
     if (!Number.isInteger(cents) || cents <= 0)
       throw new Error("Funds must be a positive integer (cents)");
+    this.guard?.beforeDeposit(cents);
     this.wallet.balanceCents += cents;
+    this.guard?.afterDeposit(cents);
+    this.walletChanged(cents, "deposit");
   }
 
-  /** Base game spin: deduct bet, generate, score (rows + diagonals), trigger FS on scatters. */
+  /** Pay out winnings earned outside spin(), e.g. a finished bonus. Not a deposit. */
+  creditWinnings(cents: number): void {
+    if (!Number.isInteger(cents) || cents <= 0)
+      throw new Error("Winnings must be a positive integer (cents)");
+    this.wallet.balanceCents += cents;
+    this.guard?.afterWinnings(cents);
+    this.walletChanged(cents, "bonus");
+  }
+
+  /** Base game spin: deduct bet (+ ante), generate, score (paylines or ways), trigger FS on scatters. */
   spin(): SpinResult {
-    if (this.wallet.betCents > this.wallet.balanceCents)
-      throw new Error("Insufficient balance");
+    const stakeCents = this.spinCostCents();
+    this.assertCanStake(stakeCents);
 
-    this.wallet.balanceCents -= this.wallet.betCents;
+    this.wallet.balanceCents -= stakeCents;
+    this.events.emit("betPlaced", {
+      mode: { type: this.ante ? "ante" : "spin" },
+      betCents: this.wallet.betCents,
+      stakeCents,
+    });
+    this.walletChanged(-stakeCents, "stake");
+
+    const { grid, stops } = this.drawGrid();
+    this.events.emit("gridGenerated", { grid, stops, bonus: false });
 
-    const grid = this.generateGrid();
+    // base scoring (no wilds in base game); cascading games score every drop
+    const cascade = this.config.cascade
+      ? this.tumble(grid, stops, this.wallet.betCents, this.config.cascade)
+      : undefined;
+    const finalGrid = cascade ? cascade[cascade.length - 1].grid : grid;
+    // scatters stay put while lines tumble, so a cascade pays them once, on its last grid
+    const scored: ScoredGrid = cascade
+      ? mergeCascade(
+          cascade,
+          this.bestFiveSymbol(),
+          this.scoreScatters(finalGrid, this.wallet.betCents)
+        )
+      : this.scoreGrid(grid, this.wallet.betCents, undefined);
 
-    // base scoring (no wilds in base game)
-    const scored = this.scoreGrid(grid, this.wallet.betCents, undefined);
+    // Progressive pools: contributions first, so a winner collects their own share too
+    const jackpotWins = this.jackpots.settle(
+      stakeCents,
+      scored.lineWins,
+      this.rng
+    );
+    const jackpotCents = jackpotWins.reduce((acc, j) => acc + j.winCents, 0);
 
     // Add winnings immediately for base
-    this.wallet.balanceCents += scored.totalWinCents;
-
-    // Scatter trigger (FS symbols count anywhere)
-    const scatterCount = this.countScatters(grid);
-    const freeSpinsAwarded =
-      scatterCount >= 5
-        ? 10
-        : scatterCount === 4
-        ? 8
-        : scatterCount === 3
-        ? 5
-        : 0;
+    const winCents = scored.totalWinCents + jackpotCents;
+    this.wallet.balanceCents += winCents;
+    this.guard?.afterSpin(stakeCents, winCents);
+    for (const win of scored.lineWins)
+      this.events.emit("lineWin", { win, bonus: false });
+    for (const win of scored.scatterWins)
+      this.events.emit("scatterWin", { win, bonus: false });
+    for (const win of jackpotWins) this.events.emit("jackpot", win);
+    if (winCents > 0) this.walletChanged(winCents, "win");
+
+    // Scatter trigger (scatter symbols count anywhere; after cascades, on the last grid)
+    const scatterCount = this.scatterCells(finalGrid).length;
+    const freeSpinsAwarded = scatterAward(
+      this.scatterRules.triggers,
+      scatterCount
+    );
+    if (freeSpinsAwarded > 0)
+      this.events.emit("freeSpinsAwarded", {
+        spins: freeSpinsAwarded,
+        scatterCount,
+      });
 
     return {
       grid,
+      stakeCents,
+      ante: this.ante,
       totalWinCents: scored.totalWinCents,
       lineWins: scored.lineWins,
+      scatterWins: scored.scatterWins,
       isJackpot: scored.isJackpot,
+      jackpotWins,
       freeSpinsAwarded,
+      scatterCount,
+      stops,
+      cascade,
     };
   }
 
+  /** Start a free-spins session driven by this machine's RNG. Winnings are not credited automatically. */
+  startBonus(
+    freeSpins: number,
+    betCents: number = this.wallet.betCents,
+    rules: WildRules = DEFAULT_WILD_RULES
+  ): BonusSession {
+    return new BonusSession(this, this.rng, freeSpins, betCents, rules);
+  }
+
+  /**
+   * Buy straight into free spins: charge the package price and return the
+   * session, which is played and credited like a triggered bonus.
+   */
+  buyBonus(spins: number, rules: WildRules = DEFAULT_WILD_RULES): BonusSession {
+    const costCents = this.bonusBuyCostCents(spins);
+    this.assertCanStake(costCents);
+    this.wallet.balanceCents -= costCents;
+    this.guard?.afterSpin(costCents, 0);
+    this.events.emit("betPlaced", {
+      mode: { type: "buy", spins },
+      betCents: this.wallet.betCents,
+      stakeCents: costCents,
+    });
+    this.walletChanged(-costCents, "stake");
+    return this.startBonus(spins, this.wallet.betCents, rules);
+  }
+
+  /** Offer a double-up on a base win; the wallet is only touched by GambleSession.collect(). */
+  startGamble(result: SpinResult): GambleSession {
+    return new GambleSession(
+      this,
+      this.rng,
+      result,
+      this.config.gamble ?? DEFAULT_GAMBLE_RULES
+    );
+  }
+
+  /** Replace an already-credited win with its gambled outcome. Used by GambleSession and to settle a saved gamble. */
+  settleGamble(initialCents: number, finalCents: number): void {
+    const delta = finalCents - initialCents;
+    if (delta === 0) return;
+    this.wallet.balanceCents += delta;
+    this.guard?.afterWinnings(delta);
+    this.walletChanged(delta, "gamble");
+  }
+
+  /** Continue a saved free-spins session (see BonusSession.snapshot). */
+  resumeBonus(
+    snapshot: BonusSnapshot,
+    rules: WildRules = DEFAULT_WILD_RULES
+  ): BonusSession {
+    const session = new BonusSession(
+      this,
+      this.rng,
+      snapshot.spinsPlayed + snapshot.spinsRemaining,
+      snapshot.betCents,
+      rules
+    );
+    session.restore(snapshot);
+    return session;
+  }
+
+  private walletChanged(deltaCents: number, reason: WalletReason): void {
+    this.events.emit("walletChanged", {
+      balanceCents: this.wallet.balanceCents,
+      deltaCents,
+      reason,
+    });
+  }
+
+  /** Definition of a symbol id from this machine's config. */
+  getSymbol(id: SymbolId): SymbolDef | undefined {
+    return this.symbols.get(id);
+  }
+
+  /** Reel strips used for the base game or the bonus, or null in weighted mode. */
+  getReelStrips(forBonus = false): SymbolId[][] | null {
+    if (!this.strips) return null;
+    return forBonus ? this.strips.bonus : this.strips.base;
+  }
+
+  /** Base-game grid: from the reel strips when configured, else weighted cells. */
+  drawGrid(): GridDraw {
+    const forced = this.forced?.nextGrid();
+    if (forced) return { grid: forced.map((row) => [...row]) };
+    if (this.strips) return this.spinStrips(this.strips.base);
+    return { grid: this.generateGrid() };
+  }
+
+  /** Bonus grid: bonus strips (scatters under wilds are ignored when scoring), else weighted cells. */
+  drawGridForBonus(wilds: number[][]): GridDraw {
+    if (this.strips) return this.spinStrips(this.strips.bonus);
+    return { grid: this.generateGridForBonus(wilds) };
+  }
+
   /** Generate a fresh rows×reels grid using weighted symbols. */
   generateGrid(): SymbolId[][] {
     const rows = this.config.rows;
@@ -95,14 +384,15 @@ export class SlotMachine {
     );
 
     for (let c = 0; c < cols; c++) {
-      let fsPlaced = false;
+      let scatters = 0;
       for (let r = 0; r < rows; r++) {
         let sym: SymbolId;
         do {
-          sym = this.pickWeightedSymbol();
-        } while (sym === "FS" && fsPlaced); // only one FS per column
+          sym = this.pickWeightedSymbol(this.baseWeights());
+          // cap scatters per column (default: one)
+        } while (this.isScatter(sym) && scatters >= this.maxScattersPerReel);
         grid[r][c] = sym;
-        if (sym === "FS") fsPlaced = true;
+        if (this.isScatter(sym)) scatters++;
       }
     }
     return grid;
@@ -116,21 +406,38 @@ export class SlotMachine {
     );
 
     for (let c = 0; c < cols; c++) {
-      let fsPlaced = false;
+      let scatters = 0;
       for (let r = 0; r < rows; r++) {
         const cellHasWild = (wilds[r][c] | 0) > 0;
         let sym: SymbolId;
         do {
-          sym = this.pickWeightedSymbol();
-          // reject FS if already placed in col OR if a wild occupies this cell
-        } while (sym === "FS" && (fsPlaced || cellHasWild));
+          sym = this.pickWeightedSymbol(this.weights);
+          // reject scatter if column is full OR if a wild occupies this cell (unless allowed)
+        } while (
+          this.isScatter(sym) &&
+          (scatters >= this.maxScattersPerReel ||
+            (cellHasWild && !this.scatterRules.onWilds))
+        );
         grid[r][c] = sym;
-        if (sym === "FS") fsPlaced = true;
+        if (this.isScatter(sym)) scatters++;
       }
     }
     return grid;
   }
 
+  /** One random stop per reel; the window shows `rows` consecutive strip symbols (wrapping). */
+  private spinStrips(strips: SymbolId[][]): GridDraw {
+    const rows = this.config.rows;
+    const stops = strips.map((strip) =>
+      Math.floor(this.rng.next() * strip.length)
+    );
+    const grid: SymbolId[][] = Array.from({ length: rows }, (_, r) =>
+      strips.map((strip, c) => strip[(stops[c] + r) % strip.length])
+    );
+    return { grid, stops };
+  }
+
+  /** Score rows/paylines (or ways) with optional bonus wild multipliers, plus scatter pays; in bonus mode also report retriggers. */
   scoreGrid(
     grid: SymbolId[][],
     betCents: number,
@@ -138,148 +445,728 @@ export class SlotMachine {
     isInBonus: boolean = false
   ): ScoredGrid {
     const lineWins: LineWin[] = [];
-    let totalWinCents = 0;
-    let anySevenJackpot = false;
-
-    const R = this.config.rows;
-    const C = this.config.reels;
     const bestSymbol = this.bestFiveSymbol();
 
-    const scoreRun = (r0: number, c0: number, dr: number, dc: number) => {
-      // 1) Find target symbol (first non-wild along the path). If none, use best-paying symbol.
-      let r = r0,
-        c = c0;
-      let target: SymbolId | null = null;
-      for (let k = 0; k < 5 && r >= 0 && r < R && c >= 0 && c < C; k++) {
-        const sym = grid[r][c];
-        const isWildCell = wilds && (wilds[r][c] | 0) > 0;
-        if (!isWildCell) {
-          target = sym;
-          break;
-        }
-        r += dr;
-        c += dc;
-      }
-      if (!target) target = bestSymbol; // all-wild leading segment → treat as best symbol
+    // Multiplier of a wild cell (bonus overlay wins; a wild symbol counts as x1); 0 = not wild
+    const wildAt = (r: number, c: number): number => {
+      const w = wilds ? wilds[r][c] | 0 : 0;
+      if (w > 0) return w;
+      return this.isWildSymbol(grid[r][c]) ? 1 : 0;
+    };
 
-      // 2) Count run length where cells are target OR wild; multiply by product of wild multipliers
-      r = r0;
-      c = c0;
-      let len = 0;
-      let productMult = 1;
-      for (let k = 0; k < 5 && r >= 0 && r < R && c >= 0 && c < C; k++) {
-        const sym = grid[r][c];
-        const w = wilds ? wilds[r][c] | 0 : 0;
-        if (sym === target || w > 0) {
-          len++;
-          if (w > 0) productMult *= w;
-          r += dr;
-          c += dc;
-        } else {
-          break;
-        }
-      }
+    const directions: Array<"ltr" | "rtl"> =
+      this.payDirection === "both" ? ["ltr", "rtl"] : [this.payDirection];
 
-      if (len >= 3) {
-        const clamped = (len >= 5 ? 5 : len) as 3 | 4 | 5;
-        const baseMult = this.config.payoutTable[target][clamped];
-        let win = Math.floor(betCents * baseMult);
-        // Optional safety: cap per-line multiplier if you want (e.g., productMult = Math.min(productMult, 500);)
-        win = Math.floor(win * productMult);
-        if (win > 0) {
-          lineWins.push({
-            startRow: r0,
-            startCol: c0,
-            endRow: r0 + (clamped - 1) * dr,
-            endCol: c0 + (clamped - 1) * dc,
-            length: clamped,
-            symbol: target,
-            winCents: win,
-          });
-          totalWinCents += win;
-          if (target === "SEVEN" && clamped === 5) anySevenJackpot = true;
-        }
+    for (const dir of directions) {
+      if (this.evaluation === "ways") {
+        this.scoreWays(grid, betCents, wildAt, dir, lineWins);
+        continue;
       }
-    };
+      for (const line of this.paylines) {
+        const path = line.rows.map((r, c): [number, number] => [r, c]);
+        if (dir === "rtl") path.reverse();
+        const win = this.scorePath(grid, betCents, path, wildAt, bestSymbol);
+        // a run covering the whole line already paid left→right (runs stop at 5 cells)
+        if (
+          !win ||
+          (dir === "rtl" &&
+            directions.length === 2 &&
+            isFullRun(lineWins, line.id, win, path.length))
+        )
+          continue;
+        lineWins.push({ ...win, paylineId: line.id, direction: dir });
+      }
+    }
 
-    // Left-to-right starts
-    for (let r = 0; r < R; r++) scoreRun(r, 0, 0, +1);
-    for (let r = 0; r <= R - 3; r++) scoreRun(r, 0, +1, +1);
-    for (let r = 2; r < R; r++) scoreRun(r, 0, -1, +1);
+    const scatterWins = this.scoreScatters(grid, betCents, wilds);
+    const totalWinCents = [...lineWins, ...scatterWins].reduce(
+      (acc, w) => acc + w.winCents,
+      0
+    );
+    const isJackpot = lineWins.some(
+      (w) => w.symbol === bestSymbol && w.length === 5
+    );
 
-    // Bonus retrigger: in bonus mode, 3+ FS anywhere → +2 spins
-    let bonusRetriggerSpins = 0;
-    if (isInBonus) {
-      const scatters = this.countScatters(grid);
-      if (scatters >= 3) bonusRetriggerSpins = 2;
-    }
+    // Bonus retrigger: extra spins by scatter count, from the retrigger table
+    const bonusRetriggerSpins = isInBonus
+      ? scatterAward(
+          this.scatterRules.retriggers,
+          this.scatterCells(grid, wilds).length
+        )
+      : 0;
 
     return {
       totalWinCents,
       lineWins,
-      isJackpot: anySevenJackpot,
+      scatterWins,
+      isJackpot,
       bonusRetriggerSpins,
     };
   }
 
-  private pickWeightedSymbol(): SymbolId {
-    const r = this.rng.next() * this.totalWeight;
-    for (const e of this.cumulative) {
+  /** Scatter pay for the grid (any position, × the total bet); empty when it pays nothing. */
+  private scoreScatters(
+    grid: SymbolId[][],
+    betCents: number,
+    wilds?: number[][]
+  ): ScatterWin[] {
+    const cells = this.scatterCells(grid, wilds);
+    const pay = scatterAward(this.scatterRules.pays ?? {}, cells.length);
+    const winCents = Math.floor(betCents * pay);
+    if (winCents <= 0) return [];
+    const [r, c] = cells[0];
+    return [{ symbol: grid[r][c], count: cells.length, cells, winCents }];
+  }
+
+  /** Score one payline path (cells in pay order); null when it doesn't pay. */
+  private scorePath(
+    grid: SymbolId[][],
+    betCents: number,
+    path: Array<[number, number]>,
+    wildAt: (r: number, c: number) => number,
+    bestSymbol: SymbolId
+  ): Omit<LineWin, "paylineId" | "direction"> | null {
+    const cells = path.slice(0, 5);
+
+    // 1) Find target symbol (first non-wild along the path). If none, use best-paying symbol.
+    let target: SymbolId | null = null;
+    for (const [r, c] of cells) {
+      if (wildAt(r, c) === 0) {
+        target = grid[r][c];
+        break;
+      }
+    }
+    if (!target) target = bestSymbol; // all-wild leading segment → treat as best symbol
+
+    // 2) Count run length where cells are target OR wild; multiply by product of wild multipliers
+    let len = 0;
+    let productMult = 1;
+    for (const [r, c] of cells) {
+      const w = wildAt(r, c);
+      if (grid[r][c] !== target && w === 0) break;
+      len++;
+      if (w > 0) productMult *= w;
+    }
+
+    const pays = symbolPays(this.symbols.get(target));
+    if (len < 3 || !pays) return null;
+
+    const clamped = (len >= 5 ? 5 : len) as 3 | 4 | 5;
+    let win = Math.floor(betCents * pays[clamped]);
+    win = Math.floor(win * productMult);
+    if (win <= 0) return null;
+
+    const matched = cells.slice(0, clamped);
+    const [startRow, startCol] = matched[0];
+    const [endRow, endCol] = matched[matched.length - 1];
+    return {
+      startRow,
+      startCol,
+      endRow,
+      endCol,
+      length: clamped,
+      symbol: target,
+      winCents: win,
+      cells: matched,
+      ...(productMult > 1 ? { wildMultiplier: productMult } : {}),
+    };
+  }
+
+  /**
+   * Ways evaluation: a symbol pays when it (or a wild) shows anywhere on 3+
+   * adjacent reels from the paying edge. Each combination pays the bet
+   * multiplier, scaled by the product of the wild multipliers it passes through.
+   */
+  private scoreWays(
+    grid: SymbolId[][],
+    betCents: number,
+    wildAt: (r: number, c: number) => number,
+    dir: "ltr" | "rtl",
+    out: LineWin[]
+  ): void {
+    const R = this.config.rows;
+    const C = this.config.reels;
+    const reels = Array.from({ length: C }, (_, i) =>
+      dir === "ltr" ? i : C - 1 - i
+    ).slice(0, 5);
+
+    for (const def of this.config.symbols) {
+      const pays = symbolPays(def);
+      if (!pays) continue;
+
+      let len = 0;
+      let ways = 1;
+      let value = 1; // Σ over combinations of their wild-multiplier product
+      const cells: Array<[number, number]> = [];
+      for (const c of reels) {
+        let count = 0;
+        let sum = 0;
+        for (let r = 0; r < R; r++) {
+          const w = wildAt(r, c);
+          if (grid[r][c] === def.id || w > 0) {
+            count++;
+            sum += w > 0 ? w : 1;
+            cells.push([r, c]);
+          }
+        }
+        if (count === 0) break;
+        len++;
+        ways *= count;
+        value *= sum;
+      }
+
+      const clamped = len as 3 | 4 | 5;
+      // same combinations already paid left→right
+      if (
+        len < 3 ||
+        (dir === "rtl" &&
+          this.payDirection === "both" &&
+          isFullRun(out, "ways", { symbol: def.id, length: clamped }, C))
+      )
+        continue;
+      const win = Math.floor(Math.floor(betCents * pays[clamped]) * value);
+      if (win <= 0) continue;
+
+      const first = cells[0];
+      const last = cells[cells.length - 1];
+      out.push({
+        startRow: first[0],
+        startCol: first[1],
+        endRow: last[0],
+        endCol: last[1],
+        length: clamped,
+        symbol: def.id,
+        winCents: win,
+        paylineId: "ways",
+        direction: dir,
+        cells,
+        ways,
+      });
+    }
+  }
+
+  /** Base-game weights: scatters boosted while the ante is on. */
+  private baseWeights(): WeightTable {
+    return this.ante && this.anteWeights ? this.anteWeights : this.weights;
+  }
+
+  /** Cascading base game: score, clear the winning cells, drop and refill until a grid has no wins. */
+  private tumble(
+    grid: SymbolId[][],
+    stops: number[] | undefined,
+    betCents: number,
+    rules: CascadeRules
+  ): CascadeStep[] {
+    const steps: CascadeStep[] = [];
+    const maxSteps = rules.maxSteps ?? 50;
+    const stripStops = stops ? [...stops] : undefined;
+    let current = grid;
+    for (;;) {
+      const multiplier =
+        rules.multipliers[Math.min(steps.length, rules.multipliers.length - 1)];
+      const lineWins = this.scoreGrid(
+        current,
+        betCents,
+        undefined
+      ).lineWins.map((w) => ({ ...w, winCents: w.winCents * multiplier }));
+      const removed = steps.length + 1 < maxSteps ? winningCells(lineWins) : [];
+      steps.push({
+        grid: current,
+        multiplier,
+        lineWins,
+        winCents: lineWins.reduce((acc, w) => acc + w.winCents, 0),
+        removed,
+      });
+      if (removed.length === 0) return steps;
+      current = this.dropAndRefill(current, removed, stripStops);
+    }
+  }
+
+  /**
+   * Remove cells, let each column's survivors fall and fill the gap from the
+   * top: weighted picks (same scatter cap as generateGrid), or in reel-strip
+   * mode the symbols above the current stop, which moves up accordingly.
+   */
+  private dropAndRefill(
+    grid: SymbolId[][],
+    removed: Array<[number, number]>,
+    stops?: number[]
+  ): SymbolId[][] {
+    const rows = this.config.rows;
+    const next = grid.map((row) => [...row]);
+    for (let c = 0; c < this.config.reels; c++) {
+      const kept: SymbolId[] = [];
+      for (let r = 0; r < rows; r++) {
+        if (!removed.some(([rr, cc]) => rr === r && cc === c))
+          kept.push(grid[r][c]);
+      }
+      const missing = rows - kept.length;
+      if (missing === 0) continue;
+
+      const fresh: SymbolId[] = [];
+      if (this.strips && stops) {
+        const strip = this.strips.base[c];
+        stops[c] =
+          (((stops[c] - missing) % strip.length) + strip.length) % strip.length;
+        for (let k = 0; k < missing; k++)
+          fresh.push(strip[(stops[c] + k) % strip.length]);
+      } else {
+        let scatters = kept.filter((id) => this.isScatter(id)).length;
+        for (let k = 0; k < missing; k++) {
+          let sym: SymbolId;
+          do {
+            sym = this.pickWeightedSymbol(this.baseWeights());
+          } while (this.isScatter(sym) && scatters >= this.maxScattersPerReel);
+          if (this.isScatter(sym)) scatters++;
+          fresh.push(sym);
+        }
+      }
+      [...fresh, ...kept].forEach((id, r) => (next[r][c] = id));
+    }
+    return next;
+  }
+
+  private pickWeightedSymbol(table: WeightTable): SymbolId {
+    const r = this.rng.next() * table.total;
+    for (const e of table.cumulative) {
       if (r < e.cum) return e.id;
     }
-    return this.cumulative[this.cumulative.length - 1].id;
+    return table.cumulative[table.cumulative.length - 1].id;
   }
 
-  private countScatters(grid: SymbolId[][]): number {
-    let n = 0;
+  /** Scatters anywhere on the grid; cells under bonus wilds only count with scatter.onWilds. */
+  private scatterCells(
+    grid: SymbolId[][],
+    wilds?: number[][]
+  ): Array<[number, number]> {
+    const cells: Array<[number, number]> = [];
     for (let r = 0; r < this.config.rows; r++) {
       for (let c = 0; c < this.config.reels; c++) {
-        if (grid[r][c] === "FS") n++;
+        if (wilds && (wilds[r][c] | 0) > 0 && !this.scatterRules.onWilds)
+          continue;
+        if (this.isScatter(grid[r][c])) cells.push([r, c]);
       }
     }
-    return n;
+    return cells;
+  }
+
+  private isScatter(id: SymbolId): boolean {
+    return this.symbols.get(id)?.role === "scatter";
+  }
+
+  private isWildSymbol(id: SymbolId): boolean {
+    return this.symbols.get(id)?.role === "wild";
   }
+
   /** Highest-paying *regular* symbol for 5-in-a-row (used for all-wild lines). */
   private bestFiveSymbol(): SymbolId {
     let best: SymbolId | null = null;
     let bestPay = -Infinity;
     for (const s of this.config.symbols) {
-      if (s.id === "FS") continue; // FS never pays as a line
-      const pay = this.config.payoutTable[s.id][5];
-      if (pay > bestPay) {
-        bestPay = pay;
+      const pays = symbolPays(s); // scatters and wilds never pay as a line
+      if (!pays) continue;
+      if (pays[5] > bestPay) {
+        bestPay = pays[5];
         best = s.id;
       }
     }
-    // fallback: first non-FS symbol
-    return best ?? this.config.symbols.find((s) => s.id !== "FS")!.id;
+    // validated configs always have a regular symbol
+    return best!;
+  }
+}
+
+/** Lines scored when a config declares none: every row, then each 3+-long down and up diagonal from reel 0. */
+export function defaultPaylines(rows: number, reels: number): Payline[] {
+  const diagonal = (start: number, dr: number): number[] => {
+    const out: number[] = [];
+    for (let c = 0, r = start; c < reels && r >= 0 && r < rows; c++, r += dr)
+      out.push(r);
+    return out;
+  };
+  const lines: Payline[] = [];
+  for (let r = 0; r < rows; r++)
+    lines.push({ id: `row ${r + 1}`, rows: Array<number>(reels).fill(r) });
+  for (let r = 0; r <= rows - 3; r++)
+    lines.push({ id: `down ${r + 1}`, rows: diagonal(r, +1) });
+  for (let r = 2; r < rows; r++)
+    lines.push({ id: `up ${r + 1}`, rows: diagonal(r, -1) });
+  return lines.filter((l) => l.rows.length >= 3);
+}
+
+/** Paylines a config is scored on. */
+export function resolvePaylines(config: SlotConfig): Payline[] {
+  return config.paylines ?? defaultPaylines(config.rows, config.reels);
+}
+
+/* ---------- Free-spins bonus ---------- */
+
+/**
+ * Headless free-spins engine. Owns the wilds grid, remaining spins, retriggers
+ * and the running total; every random decision goes through the machine's Rng,
+ * so a seeded Rng reproduces the whole bonus.
+ */
+export class BonusSession {
+  private machine: SlotMachine;
+  private rng: Rng;
+  private rules: WildRules;
+  private rows: number;
+  private cols: number;
+
+  private wilds: number[][];
+  private prevWinMask: boolean[][] | null = null;
+
+  readonly betCents: number;
+  private played = 0;
+  private total: number;
+  private totalWinCents = 0;
+
+  constructor(
+    machine: SlotMachine,
+    rng: Rng,
+    freeSpins: number,
+    betCents: number,
+    rules: WildRules = DEFAULT_WILD_RULES
+  ) {
+    if (!Number.isInteger(freeSpins) || freeSpins <= 0)
+      throw new Error("Free spins must be a positive integer");
+    if (!Number.isInteger(betCents) || betCents <= 0)
+      throw new Error("Bet must be a positive integer (cents)");
+
+    const config = machine.getConfig();
+    this.machine = machine;
+    this.rng = rng;
+    this.rules = rules;
+    this.rows = config.rows;
+    this.cols = config.reels;
+    this.betCents = betCents;
+    this.total = freeSpins;
+    this.wilds = Array.from({ length: this.rows }, () =>
+      Array<number>(this.cols).fill(0)
+    );
+  }
+
+  get spinsPlayed(): number {
+    return this.played;
+  }
+
+  get totalSpins(): number {
+    return this.total;
+  }
+
+  get spinsRemaining(): number {
+    return this.total - this.played;
+  }
+
+  get bonusTotalCents(): number {
+    return this.totalWinCents;
+  }
+
+  get isComplete(): boolean {
+    return this.played >= this.total;
+  }
+
+  /** Copy of the current wild multipliers ([row][col], 0 = no wild). */
+  getWilds(): number[][] {
+    return this.wilds.map((row) => [...row]);
+  }
+
+  /** Plain-data copy of the session state, safe to JSON-serialize. */
+  snapshot(): BonusSnapshot {
+    return {
+      betCents: this.betCents,
+      wilds: this.getWilds(),
+      winMask: this.prevWinMask && this.prevWinMask.map((row) => [...row]),
+      spinsPlayed: this.played,
+      spinsRemaining: this.spinsRemaining,
+      bonusTotalCents: this.totalWinCents,
+    };
+  }
+
+  /** Load state from snapshot(); throws if it doesn't fit this machine's grid. */
+  restore(snapshot: BonusSnapshot): void {
+    const fits = (grid: unknown[][] | null) =>
+      !grid ||
+      (grid.length === this.rows &&
+        grid.every((row) => row.length === this.cols));
+    if (!fits(snapshot.wilds) || !fits(snapshot.winMask))
+      throw new Error("Bonus snapshot does not match this game's grid");
+    if (
+      !Number.isInteger(snapshot.spinsPlayed) ||
+      snapshot.spinsPlayed < 0 ||
+      !Number.isInteger(snapshot.spinsRemaining) ||
+      snapshot.spinsRemaining < 0 ||
+      !Number.isInteger(snapshot.bonusTotalCents) ||
+      snapshot.bonusTotalCents < 0
+    )
+      throw new Error("Bonus snapshot has invalid spin counts or total");
+
+    this.wilds = snapshot.wilds.map((row) => row.map((m) => m | 0));
+    this.prevWinMask =
+      snapshot.winMask && snapshot.winMask.map((row) => [...row]);
+    this.played = snapshot.spinsPlayed;
+    this.total = snapshot.spinsPlayed + snapshot.spinsRemaining;
+    this.totalWinCents = snapshot.bonusTotalCents;
+  }
+
+  /** Play one free spin: grow winning wilds, spawn new ones, spin, score, retrigger. */
+  nextSpin(): BonusSpinResult {
+    if (this.isComplete) throw new Error("Bonus session is complete");
+
+    // QA scenarios bring their own wilds and grid
+    const forced = this.machine.nextForcedBonusSpin();
+
+    // 1) Grow ONLY wilds that were part of last spin's wins
+    const bumpedWilds = forced
+      ? this.changedWilds(forced.wilds, true)
+      : this.prevWinMask
+      ? this.incrementWildsByMask(this.prevWinMask)
+      : [];
+
+    // 2) Spawn brand-new wilds in empty cells
+    const newWilds = forced
+      ? this.changedWilds(forced.wilds, false)
+      : this.spawnNewWilds();
+    if (forced) this.wilds = forced.wilds.map((row) => row.map((m) => m | 0));
+
+    // 3) Spin (scatters under wilds only with scatter.onWilds) and score with the wild overlay
+    const { grid, stops }: GridDraw = forced
+      ? { grid: forced.grid.map((row) => [...row]) }
+      : this.machine.drawGridForBonus(this.wilds);
+    const scored = this.machine.scoreGrid(
+      grid,
+      this.betCents,
+      this.wilds,
+      true
+    );
+
+    // 4) Remember which cells won, for next spin's growth
+    this.prevWinMask = this.buildWinMask(scored.lineWins);
+
+    this.played++;
+    this.totalWinCents += scored.totalWinCents;
+    // retriggers top the session up to maxTotalFreeSpins at most
+    const cap =
+      this.machine.getScatterRules().maxTotalFreeSpins ??
+      Number.POSITIVE_INFINITY;
+    const retriggerSpins = Math.max(
+      0,
+      Math.min(scored.bonusRetriggerSpins ?? 0, cap - this.total)
+    );
+    this.total += retriggerSpins;
+
+    const result: BonusSpinResult = {
+      spinNumber: this.played,
+      totalSpins: this.total,
+      bumpedWilds,
+      newWilds,
+      wilds: this.getWilds(),
+      grid,
+      stops,
+      lineWins: scored.lineWins,
+      scatterWins: scored.scatterWins,
+      winCents: scored.totalWinCents,
+      retriggerSpins,
+      bonusTotalCents: this.totalWinCents,
+    };
+    this.emitSpin(result);
+    return result;
+  }
+
+  /** Tell the machine's subscribers what this spin did, in presentation order. */
+  private emitSpin(spin: BonusSpinResult): void {
+    const events = this.machine.events;
+    for (const [row, col] of spin.bumpedWilds)
+      events.emit("wildUpgraded", {
+        row,
+        col,
+        multiplier: spin.wilds[row][col],
+      });
+    for (const [row, col] of spin.newWilds)
+      events.emit("wildSpawned", { row, col });
+    events.emit("gridGenerated", {
+      grid: spin.grid,
+      stops: spin.stops,
+      bonus: true,
+      wilds: spin.wilds,
+    });
+    for (const win of spin.lineWins)
+      events.emit("lineWin", { win, bonus: true });
+    for (const win of spin.scatterWins)
+      events.emit("scatterWin", { win, bonus: true });
+    if (spin.retriggerSpins > 0)
+      events.emit("bonusRetrigger", {
+        spins: spin.retriggerSpins,
+        totalSpins: spin.totalSpins,
+      });
+    events.emit("bonusSpin", spin);
+    if (this.isComplete)
+      events.emit("bonusEnded", {
+        betCents: this.betCents,
+        spinsPlayed: this.played,
+        totalWinCents: this.totalWinCents,
+      });
+  }
+
+  /** Spawn brand-new x1 wilds in empty cells only (no stacking by landing). */
+  private spawnNewWilds(): Array<[number, number]> {
+    const out: Array<[number, number]> = [];
+    if (this.rng.next() >= this.rules.spawnChance) return out;
+
+    const empty: Array<[number, number]> = [];
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        if ((this.wilds[r][c] | 0) === 0) empty.push([r, c]);
+      }
+    }
+    if (empty.length === 0) return out;
+
+    // Pick 1 or 2 unique empties
+    const want = Math.min(
+      1 + (this.rng.next() < this.rules.extraWildChance ? 1 : 0),
+      this.rules.maxNewPerSpin,
+      empty.length
+    );
+    for (let i = empty.length - 1; i > 0; i--) {
+      const j = (this.rng.next() * (i + 1)) | 0;
+      [empty[i], empty[j]] = [empty[j], empty[i]];
+    }
+    for (let i = 0; i < want; i++) {
+      const [r, c] = empty[i];
+      this.wilds[r][c] = 1;
+      out.push([r, c]);
+    }
+    return out;
+  }
+
+  /** Cells where `next` grows an existing wild (`grown`) or adds a new one. */
+  private changedWilds(
+    next: number[][],
+    grown: boolean
+  ): Array<[number, number]> {
+    const out: Array<[number, number]> = [];
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        const before = this.wilds[r][c];
+        if (next[r][c] > before && (grown ? before > 0 : before === 0))
+          out.push([r, c]);
+      }
+    }
+    return out;
+  }
+
+  private buildWinMask(lineWins: LineWin[]): boolean[][] {
+    const mask: boolean[][] = Array.from({ length: this.rows }, () =>
+      Array<boolean>(this.cols).fill(false)
+    );
+    for (const w of lineWins) {
+      for (const [r, c] of w.cells) {
+        if (r >= 0 && r < this.rows && c >= 0 && c < this.cols)
+          mask[r][c] = true;
+      }
+    }
+    return mask;
+  }
+
+  private incrementWildsByMask(mask: boolean[][]): Array<[number, number]> {
+    const inc: Array<[number, number]> = [];
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        if (mask[r][c] && this.wilds[r][c] > 0) {
+          const before = this.wilds[r][c];
+          this.wilds[r][c] = Math.min(this.rules.multiplierCap, before + 1);
+          if (this.wilds[r][c] !== before) inc.push([r, c]);
+        }
+      }
+    }
+    return inc;
   }
 }
 
 /* ---------- Default config for 5x5 with a scatter ---------- */
 
+/** Pays are multipliers per run length (applied to the bet). */
 export const DEFAULT_SYMBOLS: SymbolDef[] = [
-  { id: "CHERRY", emoji: "🍒", weight: 36 },
-  { id: "LEMON", emoji: "🍋", weight: 28 },
-  { id: "STAR", emoji: "⭐", weight: 18 },
-  { id: "SEVEN", emoji: "7️⃣", weight: 10 },
-  { id: "FS", emoji: "🔔", weight: 8 }, // scatter: bell (tune weights later)
+  {
+    id: "CHERRY",
+    emoji: "🍒",
+    color: "#ff6b6b",
+    weight: 36,
+    role: "regular",
+    pays: { 3: 1.5, 4: 3, 5: 6 },
+  },
+  {
+    id: "LEMON",
+    emoji: "🍋",
+    color: "#ffd166",
+    weight: 28,
+    role: "regular",
+    pays: { 3: 2, 4: 4, 5: 8 },
+  },
+  {
+    id: "STAR",
+    emoji: "⭐",
+    color: "#a78bfa",
+    weight: 18,
+    role: "regular",
+    pays: { 3: 3, 4: 6, 5: 12 },
+  },
+  {
+    id: "SEVEN",
+    emoji: "7️⃣",
+    color: "#60a5fa",
+    weight: 10,
+    role: "regular",
+    pays: { 3: 5, 4: 12, 5: 25 },
+  },
+  // scatter: bell (tune weights later); pays and triggers per DEFAULT_SCATTER_RULES
+  { id: "FS", emoji: "🔔", color: "#f59e0b", weight: 8, role: "scatter" },
+];
+
+/** Ante: +25% stake for doubled scatter weights in the base game. */
+export const DEFAULT_ANTE: AnteRules = {
+  stakeIncrease: 0.25,
+  scatterWeightMultiplier: 2,
+};
+
+/** Bonus buy: 100x the bet per 10 free spins. */
+export const DEFAULT_BONUS_BUY: BonusBuyOption[] = [
+  { spins: 5, costX: 50 },
+  { spins: 8, costX: 80 },
+  { spins: 10, costX: 100 },
+];
+
+/** Big from 10x the bet, Mega from 25x, Epic from 50x; bigger wins count up longer. */
+export const DEFAULT_WIN_TIERS: WinTier[] = [
+  { name: "Big", minX: 10, countUpMs: 3000 },
+  { name: "Mega", minX: 25, countUpMs: 4500 },
+  { name: "Epic", minX: 50, countUpMs: 6000 },
 ];
 
-/** Multipliers per run length (applied to the bet). FS has no line pay. */
-export const DEFAULT_PAYOUT: PayoutTable = {
-  CHERRY: { 3: 1.5, 4: 3, 5: 6 },
-  LEMON: { 3: 2, 4: 4, 5: 8 },
-  STAR: { 3: 3, 4: 6, 5: 12 },
-  SEVEN: { 3: 5, 4: 12, 5: 25 },
-  FS: { 3: 0, 4: 0, 5: 0 }, // no pay as a line; only triggers bonus
+/** Scatters: 3/4/5+ trigger 5/8/10 free spins, 3+ in free spins add 2; no scatter pays, no cap. */
+export const DEFAULT_SCATTER_RULES: ScatterRules = {
+  pays: {},
+  triggers: { 3: 5, 4: 8, 5: 10 },
+  retriggers: { 3: 2 },
+  onWilds: false,
+};
+
+/**
+ * Bonus wilds: 70% of spins spawn, up to 2 new wilds, each growing to x10 at
+ * most. A run multiplies all its wilds together, so the cap is what bounds a
+ * line's multiplier; Infinity lets wilds grow for as long as the bonus lasts.
+ */
+export const DEFAULT_WILD_RULES: WildRules = {
+  spawnChance: 0.7,
+  extraWildChance: 0.4,
+  maxNewPerSpin: 2,
+  multiplierCap: 10,
 };
 
 export const DEFAULT_CONFIG: SlotConfig = {
   reels: 5,
   rows: 5,
   symbols: DEFAULT_SYMBOLS,
-  payoutTable: DEFAULT_PAYOUT,
+  maxScattersPerReel: 1,
 };
 
 export function createDefaultMachine(
@@ -291,3 +1178,162 @@ export function createDefaultMachine(
     betCents: initialBetCents,
   });
 }
+
+/** Progressive jackpot money paid by a base spin (on top of its line wins). */
+export function jackpotTotal(result: SpinResult): number {
+  return result.jackpotWins.reduce((acc, j) => acc + j.winCents, 0);
+}
+
+/** The highest tier a win reaches (win / bet at least its minX), or null below the first. */
+export function winTierFor(
+  tiers: readonly WinTier[],
+  winCents: number,
+  betCents: number
+): WinTier | null {
+  const x = winCents / betCents;
+  let reached: WinTier | null = null;
+  for (const t of tiers) if (x >= t.minX) reached = t;
+  return reached;
+}
+
+/** The entry of a scatter table for `count` scatters: the value at the highest count reached, else 0. */
+export function scatterAward(table: ScatterTable, count: number): number {
+  let reached = 0;
+  let value = 0;
+  for (const [key, v] of Object.entries(table)) {
+    const n = Number(key);
+    if (n <= count && n > reached) {
+      reached = n;
+      value = v;
+    }
+  }
+  return value;
+}
+
+/** The ante only boosts scatter weights: not on reel strips, and pointless without scatters. */
+export function anteSupported(config: SlotConfig): boolean {
+  return !config.reelStrips && config.symbols.some((s) => s.role === "scatter");
+}
+
+/** Price of entering a round in `mode` at `betCents`: the bet, bet + ante, or a bonus-buy package. */
+
+export function roundCostCents(
+  config: SlotConfig,
+  betCents: number,
+  mode: RoundMode
+): number {
+  if (mode.type === "spin") return betCents;
+  if (mode.type === "ante")
+    return Math.round(
+      betCents * (1 + (config.ante ?? DEFAULT_ANTE).stakeIncrease)
+    );
+  const option = (config.bonusBuy ?? DEFAULT_BONUS_BUY).find(
+    (o) => o.spins === mode.spins
+  );
+  if (!option) throw new Error(`No bonus buy for ${mode.spins} free spins`);
+  return Math.round(betCents * option.costX);
+}
+
+/** Play one round in `mode` (a base spin and any free spins it triggers, or a bought bonus) to the end, crediting the bonus. */
+export function playRound(
+  machine: SlotMachine,
+  mode: RoundMode = { type: "spin" }
+): PlayedRound {
+  let result: SpinResult | null = null;
+  let session: BonusSession | null = null;
+  if (mode.type === "buy") {
+    session = machine.buyBonus(mode.spins);
+  } else {
+    machine.setAnte(mode.type === "ante");
+    result = machine.spin();
+    if (result.freeSpinsAwarded > 0)
+      session = machine.startBonus(result.freeSpinsAwarded);
+  }
+
+  const bonusSpins: BonusSpinResult[] = [];
+  let bonusTotalCents = 0;
+  if (session) {
+    while (!session.isComplete) bonusSpins.push(session.nextSpin());
+    bonusTotalCents = session.bonusTotalCents;
+    if (bonusTotalCents > 0) machine.creditWinnings(bonusTotalCents);
+  }
+  const baseCents = result ? result.totalWinCents + jackpotTotal(result) : 0;
+  return {
+    result,
+    bonusSpins,
+    bonusTotalCents,
+    totalWinCents: baseCents + bonusTotalCents,
+  };
+}
+
+/** Totals over all steps of a cascading spin plus its scatter pay, shaped like a single scored grid. */
+function mergeCascade(
+  steps: CascadeStep[],
+  bestSymbol: SymbolId,
+  scatterWins: ScatterWin[]
+): ScoredGrid {
+  const lineWins = steps.flatMap((s) => s.lineWins);
+  return {
+    totalWinCents:
+      steps.reduce((acc, s) => acc + s.winCents, 0) +
+      scatterWins.reduce((acc, w) => acc + w.winCents, 0),
+    lineWins,
+    scatterWins,
+    isJackpot: lineWins.some((w) => w.symbol === bestSymbol && w.length === 5),
+  };
+}
+
+/**
+ * Whether a right→left run matches the left→right win already on `lineWins`
+ * for the whole line: both as long as the line allows (at most 5 cells) and
+ * of the same symbol. On lines longer than 5 the two capped runs then overlap,
+ * so the line is one run and pays once.
+ */
+function isFullRun(
+  lineWins: LineWin[],
+  paylineId: string,
+  win: Pick<LineWin, "symbol" | "length">,
+  lineLength: number
+): boolean {
+  const full = Math.min(lineLength, 5);
+  return (
+    win.length === full &&
+    lineWins.some(
+      (w) =>
+        w.paylineId === paylineId &&
+        w.direction === "ltr" &&
+        w.symbol === win.symbol &&
+        w.length === full
+    )
+  );
+}
+
+/** Every cell that is part of at least one win, each listed once. */
+function winningCells(lineWins: LineWin[]): Array<[number, number]> {
+  const seen = new Set<string>();
+  const cells: Array<[number, number]> = [];
+  for (const w of lineWins) {
+    for (const [r, c] of w.cells) {
+      const key = `${r},${c}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      cells.push([r, c]);
+    }
+  }
+  return cells;
+}
+
+/** Cumulative symbol weights for weighted picks; `scatterX` scales scatter weights (ante bet). */
+interface WeightTable {
+  cumulative: { id: SymbolId; cum: number }[];
+  total: number;
+}
+
+function weightTable(symbols: SymbolDef[], scatterX = 1): WeightTable {
+  let running = 0;
+  const cumulative = symbols.map((s) => {
+    running += s.role === "scatter" ? s.weight * scatterX : s.weight;
+    return { id: s.id, cum: running };
+  });
+  return { cumulative, total: running };
+}
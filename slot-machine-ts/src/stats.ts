@@ -0,0 +1,179 @@
+// src/stats.ts
+//
+// Live session statistics, fed only by engine events (events.ts): every paid
+// round, its winnings (base win, jackpots, bonus total, gamble result),
+// free-spins triggers and finished bonuses. Totals never drop out; the
+// per-round list behind the balance chart and the CSV keeps the newest
+// STATS_ROUND_LIMIT rounds. The state is plain data, saved with the game.
+
+import type { EventBus, EngineEvents } from "./events";
+
+export const STATS_ROUND_LIMIT = 1000;
+
+/** One paid round: a base spin (and anything it triggered) or a bonus buy. */
+export interface StatsRound {
+  stakeCents: number;
+  wonCents: number; // everything the round paid, gamble included
+  balanceCents: number; // after the round
+  bonus: boolean; // free spins were triggered or bought
+}
+
+export interface StatsState {
+  startedAt: number; // ms since epoch
+  startBalanceCents: number;
+  rounds: number;
+  wageredCents: number;
+  wonCents: number;
+  hits: number; // rounds that paid anything
+  biggestWinCents: number;
+  freeSpinTriggers: number;
+  bonuses: number; // finished bonuses, bought ones included
+  bonusWonCents: number;
+  history: StatsRound[];
+}
+
+/** Derived figures for the panel; rates are null before the first round. */
+export interface StatsSummary {
+  rounds: number;
+  wageredCents: number;
+  wonCents: number;
+  rtp: number | null; // won / wagered
+  hitRate: number | null; // hits / rounds
+  biggestWinCents: number;
+  freeSpinTriggers: number;
+  averageBonusCents: number | null;
+}
+
+export class SessionStats {
+  private state: StatsState;
+  private now: () => number;
+
+  constructor(
+    saved: StatsState | null,
+    balanceCents: number,
+    now: () => number = Date.now
+  ) {
+    this.now = now;
+    this.state = saved
+      ? { ...saved, history: saved.history.map((r) => ({ ...r })) }
+      : this.fresh(balanceCents);
+  }
+
+  /** Follow a machine's events; returns the detach function. */
+  attach(events: EventBus<EngineEvents>): () => void {
+    const offs = [
+      events.on("betPlaced", (e) => {
+        const s = this.state;
+        s.rounds++;
+        s.wageredCents += e.stakeCents;
+        s.history.push({
+          stakeCents: e.stakeCents,
+          wonCents: 0,
+          balanceCents: 0, // the stake's walletChanged follows at once
+          bonus: e.mode.type === "buy",
+        });
+        if (s.history.length > STATS_ROUND_LIMIT) s.history.shift();
+      }),
+      events.on("walletChanged", (e) => {
+        const round = this.current();
+        if (!round || e.reason === "deposit") return;
+        round.balanceCents = e.balanceCents;
+        if (e.reason === "stake") return;
+        const paidBefore = round.wonCents > 0;
+        round.wonCents += e.deltaCents;
+        this.state.wonCents += e.deltaCents;
+        if (!paidBefore && round.wonCents > 0) this.state.hits++;
+        this.state.biggestWinCents = Math.max(
+          this.state.biggestWinCents,
+          round.wonCents
+        );
+      }),
+      events.on("freeSpinsAwarded", () => {
+        this.state.freeSpinTriggers++;
+        const round = this.current();
+        if (round) round.bonus = true;
+      }),
+      events.on("bonusEnded", (e) => {
+        this.state.bonuses++;
+        this.state.bonusWonCents += e.totalWinCents;
+      }),
+    ];
+    return () => offs.forEach((off) => off());
+  }
+
+  /** Start a new session from `balanceCents`. */
+  reset(balanceCents: number): void {
+    this.state = this.fresh(balanceCents);
+  }
+
+  getState(): StatsState {
+    return {
+      ...this.state,
+      history: this.state.history.map((r) => ({ ...r })),
+    };
+  }
+
+  getSummary(): StatsSummary {
+    const s = this.state;
+    return {
+      rounds: s.rounds,
+      wageredCents: s.wageredCents,
+      wonCents: s.wonCents,
+      rtp: s.wageredCents > 0 ? s.wonCents / s.wageredCents : null,
+      hitRate: s.rounds > 0 ? s.hits / s.rounds : null,
+      biggestWinCents: s.biggestWinCents,
+      freeSpinTriggers: s.freeSpinTriggers,
+      averageBonusCents: s.bonuses > 0 ? s.bonusWonCents / s.bonuses : null,
+    };
+  }
+
+  /** Balance after each kept round, led by the session's starting balance while no round has dropped out. */
+  getBalancePoints(): Array<{ balanceCents: number; bonus: boolean }> {
+    const s = this.state;
+    const points = s.history.map((r) => ({
+      balanceCents: r.balanceCents,
+      bonus: r.bonus,
+    }));
+    return s.history.length < s.rounds
+      ? points
+      : [{ balanceCents: s.startBalanceCents, bonus: false }, ...points];
+  }
+
+  /**
+   * One row per kept round. `amount` formats minor units as plain numbers
+   * (no currency symbol or grouping) so spreadsheets can sum them.
+   */
+  toCsv(amount: (cents: number) => string): string {
+    const skipped = this.state.rounds - this.state.history.length;
+    const rows = this.state.history.map((r, i) =>
+      [
+        skipped + i + 1,
+        amount(r.stakeCents),
+        amount(r.wonCents),
+        amount(r.balanceCents),
+        r.bonus ? "yes" : "no",
+      ].join(",")
+    );
+    return ["round,stake,won,balance,bonus", ...rows].join("\n") + "\n";
+  }
+
+  private current(): StatsRound | undefined {
+    return this.state.history[this.state.history.length - 1];
+  }
+
+  private fresh(balanceCents: number): StatsState {
+    return {
+      startedAt: this.now(),
+      startBalanceCents: balanceCents,
+      rounds: 0,
+      wageredCents: 0,
+      wonCents: 0,
+      hits: 0,
+      biggestWinCents: 0,
+      freeSpinTriggers: 0,
+      bonuses: 0,
+      bonusWonCents: 0,
+      history: [],
+    };
+  }
+}
@@ -1,31 +1,369 @@
 // src/storage.ts
 
-const KEY = "ts-slots-wallet";
+import type { BonusSnapshot, GambleSnapshot } from "./types";
+import type { FairState } from "./fair";
+import type { RoundRecord } from "./history";
+import { type AutoplaySettings, DEFAULT_AUTOPLAY } from "./autoplay";
+import type { RgState } from "./responsible";
+import type { JackpotState } from "./jackpot";
+import { type SoundSettings, DEFAULT_SOUND } from "./audio";
+import type { StatsState } from "./stats";
 
-export interface PersistedWallet {
+const KEY = "ts-slots-save";
+const LEGACY_WALLET_KEY = "ts-slots-wallet";
+const FAIR_KEY = "ts-slots-fair";
+const RG_KEY = "ts-slots-responsible";
+
+/** Bump when SaveGame changes shape and add a migration from the previous version. */
+export const SAVE_VERSION = 8;
+
+/** Player preferences; new fields need a default in DEFAULT_SETTINGS. */
+export interface GameSettings {
+  autoplay: AutoplaySettings;
+  ante: boolean; // ante bet switched on
+  credits: number | null; // show balance and wins as credits of this value (cents); null = currency
+  reducedMotion: boolean | null; // quick reveal instead of spinning reels; null = follow the system
+  sound: SoundSettings;
+  turbo: boolean; // all spin animations and pauses shortened
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  autoplay: DEFAULT_AUTOPLAY,
+  ante: false,
+  credits: null,
+  reducedMotion: null,
+  sound: DEFAULT_SOUND,
+  turbo: false,
+};
+
+/** An unfinished free-spins bonus: engine state plus the round being recorded. */
+export interface SavedBonus {
+  session: BonusSnapshot;
+  round: RoundRecord;
+  draws: number; // numbers already drawn from the round's fair RNG stream
+}
+
+/**
+ * The bonus a save carries: the session being played, else a saved one the
+ * player has not resumed or collected yet. Saving null for the latter (say on
+ * the first save after a reload) would lose the bonus and its winnings.
+ */
+export function bonusToSave(
+  playing: SavedBonus | null,
+  waiting: SavedBonus | null
+): SavedBonus | null {
+  return playing ?? waiting;
+}
+
+/** A gamble not collected yet; a reload settles it at its current stake. */
+export interface SavedGamble {
+  state: GambleSnapshot;
+  round: RoundRecord; // the spin's round, recorded once the gamble is settled
+}
+
+/**
+ * One save per currency, so wallets and pools never mix currencies.
+ * Responsible-gaming state is not in here: it is shared by every game
+ * (saveResponsible), so switching currency can't lift a limit or a block.
+ */
+export interface SaveGame {
+  version: typeof SAVE_VERSION;
+  currency: string; // ISO code every *Cents amount below is in
   balanceCents: number;
+  betCents: number;
+  settings: GameSettings;
+  bonus: SavedBonus | null;
+  gamble: SavedGamble | null;
+  jackpots: JackpotState | null; // progressive pool values
+  stats: StatsState | null; // session statistics panel
+}
+
+/** A save as read back from JSON: nothing about it is known until it is checked. */
+type SaveData = Record<string, unknown>;
+
+/** Upgrades one version; null when the old save lacks what the step needs. */
+type Migration = (old: SaveData) => SaveData | null;
+
+/** MIGRATIONS[n] upgrades a version-n save to version n + 1. */
+const MIGRATIONS: Record<number, Migration> = {
+  // v1: the original { balanceCents } wallet under "ts-slots-wallet"
+  1: (old) =>
+    isCents(old.balanceCents)
+      ? {
+          version: 2,
+          balanceCents: old.balanceCents,
+          betCents: 100,
+          settings: {},
+          bonus: null,
+        }
+      : null,
+  // v2: no responsible-gaming state yet
+  2: (old) => ({ ...old, version: 3, responsible: null }),
+  // v3: no progressive jackpots yet
+  3: (old) => ({ ...old, version: 4, jackpots: null }),
+  // v4: everything was in euro
+  4: (old) => ({ ...old, version: 5, currency: "EUR" }),
+  // v5: no session statistics yet
+  5: (old) => ({ ...old, version: 6, stats: null }),
+  // v6: gambles were never saved
+  6: (old) => ({ ...old, version: 7, gamble: null }),
+  // v7: responsible-gaming state moved to its own key (see loadResponsible)
+  7: ({ responsible: _rg, ...old }) => ({ ...old, version: 8 }),
+};
+
+function readJson(key: string): unknown {
+  const raw = localStorage.getItem(key);
+  return raw ? JSON.parse(raw) : null;
+}
+
+function isObject(x: unknown): x is SaveData {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+function isNumber(x: unknown): x is number {
+  return typeof x === "number" && Number.isFinite(x);
+}
+
+function isCents(x: unknown): x is number {
+  return typeof x === "number" && Number.isInteger(x) && x >= 0;
+}
+
+function hasNumbers(x: SaveData, keys: string[]): boolean {
+  return keys.every((key) => isNumber(x[key]));
+}
+
+function isRgState(x: unknown): x is RgState {
+  return (
+    isObject(x) &&
+    isObject(x.limits) &&
+    isObject(x.limits.deposit) &&
+    Array.isArray(x.deposits)
+  );
+}
+
+function isRoundRecord(x: unknown): x is RoundRecord {
+  return (
+    isObject(x) &&
+    typeof x.game === "string" &&
+    hasNumbers(x, [
+      "startedAt",
+      "betCents",
+      "balanceBeforeCents",
+      "balanceAfterCents",
+      "totalWinCents",
+      "rngState",
+    ]) &&
+    Array.isArray(x.spins)
+  );
+}
+
+function isSavedBonus(x: unknown): x is SavedBonus {
+  if (!isObject(x) || !isRoundRecord(x.round) || !isCents(x.draws))
+    return false;
+  const session = x.session;
+  return (
+    isObject(session) &&
+    isCents(session.betCents) &&
+    isCents(session.spinsPlayed) &&
+    isCents(session.spinsRemaining) &&
+    isCents(session.bonusTotalCents) &&
+    Array.isArray(session.wilds) &&
+    (session.winMask === null || Array.isArray(session.winMask))
+  );
+}
+
+function isSavedGamble(x: unknown): x is SavedGamble {
+  if (!isObject(x) || !isRoundRecord(x.round)) return false;
+  const state = x.state;
+  return (
+    isObject(state) &&
+    isCents(state.initialCents) &&
+    isCents(state.stakeCents) &&
+    Array.isArray(state.steps) &&
+    state.steps.every(isObject)
+  );
+}
+
+function isJackpotState(x: unknown): x is JackpotState {
+  return isObject(x) && Object.values(x).every(isNumber);
+}
+
+function isStatsState(x: unknown): x is StatsState {
+  return (
+    isObject(x) &&
+    hasNumbers(x, [
+      "startedAt",
+      "startBalanceCents",
+      "rounds",
+      "wageredCents",
+      "wonCents",
+      "hits",
+      "biggestWinCents",
+      "freeSpinTriggers",
+      "bonuses",
+      "bonusWonCents",
+    ]) &&
+    Array.isArray(x.history) &&
+    x.history.every(isObject)
+  );
+}
+
+function centsOrNull(x: unknown): number | null {
+  return isCents(x) ? x : null;
+}
+
+function readAutoplay(x: unknown): AutoplaySettings {
+  if (!isObject(x)) return DEFAULT_AUTOPLAY;
+  return {
+    rounds:
+      x.rounds === null || (isCents(x.rounds) && x.rounds > 0)
+        ? x.rounds
+        : DEFAULT_AUTOPLAY.rounds,
+    lossLimitCents: centsOrNull(x.lossLimitCents),
+    singleWinAboveCents: centsOrNull(x.singleWinAboveCents),
+    balanceBelowCents: centsOrNull(x.balanceBelowCents),
+    balanceAboveCents: centsOrNull(x.balanceAboveCents),
+    stopOnFreeSpins:
+      typeof x.stopOnFreeSpins === "boolean"
+        ? x.stopOnFreeSpins
+        : DEFAULT_AUTOPLAY.stopOnFreeSpins,
+  };
+}
+
+function readSound(x: unknown): SoundSettings {
+  if (!isObject(x)) return DEFAULT_SOUND;
+  const volume = (v: unknown, fallback: number) =>
+    isNumber(v) && v >= 0 && v <= 1 ? v : fallback;
+  return {
+    master: volume(x.master, DEFAULT_SOUND.master),
+    music: volume(x.music, DEFAULT_SOUND.music),
+    effects: volume(x.effects, DEFAULT_SOUND.effects),
+    muted: x.muted === true,
+  };
+}
+
+function readSettings(x: unknown): GameSettings {
+  if (!isObject(x)) return DEFAULT_SETTINGS;
+  return {
+    autoplay: readAutoplay(x.autoplay),
+    ante: x.ante === true,
+    credits: isCents(x.credits) && x.credits > 0 ? x.credits : null,
+    reducedMotion:
+      typeof x.reducedMotion === "boolean" ? x.reducedMotion : null,
+    sound: readSound(x.sound),
+    turbo: x.turbo === true,
+  };
+}
+
+/** Check a current-version save field by field; parts that don't fit fall back to their empty value. */
+function readSave(data: SaveData): SaveGame | null {
+  if (!isCents(data.balanceCents) || !isCents(data.betCents)) return null;
+  if (typeof data.currency !== "string") return null;
+  return {
+    version: SAVE_VERSION,
+    currency: data.currency,
+    balanceCents: data.balanceCents,
+    betCents: data.betCents > 0 ? data.betCents : 100,
+    settings: readSettings(data.settings),
+    bonus: isSavedBonus(data.bonus) ? data.bonus : null,
+    gamble: isSavedGamble(data.gamble) ? data.gamble : null,
+    jackpots: isJackpotState(data.jackpots) ? data.jackpots : null,
+    stats: isStatsState(data.stats) ? data.stats : null,
+  };
+}
+
+/** Upgrade any older save to SAVE_VERSION; null if it can't be read. */
+export function migrateSave(raw: unknown): SaveGame | null {
+  if (!isObject(raw)) return null;
+  let data: SaveData | null = raw;
+  let version = isNumber(raw.version) ? raw.version : 1;
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    data = migrate(data);
+    if (!data) return null;
+    version++;
+  }
+  if (version !== SAVE_VERSION) return null; // written by a newer build
+  return readSave(data);
+}
+
+/** Euro keeps the original key: every save written before currencies was euro. */
+function saveKey(currency: string): string {
+  return currency === "EUR" ? KEY : `${KEY}-${currency}`;
+}
+
+export function saveGame(data: SaveGame): void {
+  try {
+    localStorage.setItem(saveKey(data.currency), JSON.stringify(data));
+    localStorage.removeItem(LEGACY_WALLET_KEY);
+  } catch {
+    // ignore storage errors (private browsing / quota)
+  }
+}
+
+/** Current save for a currency, migrating the legacy (euro) wallet key the first time. */
+export function loadGame(currency = "EUR"): SaveGame | null {
+  try {
+    const raw =
+      readJson(saveKey(currency)) ??
+      (currency === "EUR" ? readJson(LEGACY_WALLET_KEY) : null);
+    const save = migrateSave(raw);
+    return save?.currency === currency ? save : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveResponsible(state: RgState): void {
+  try {
+    localStorage.setItem(RG_KEY, JSON.stringify(state));
+  } catch {
+    // ignore storage errors (private browsing / quota)
+  }
+}
+
+/**
+ * Limits, deposits, breaks and the current session, the same for every game.
+ * Until it has its own key the state comes from the euro save (pre-v8 saves
+ * kept it per currency, and every save before currencies was euro).
+ */
+export function loadResponsible(): RgState | null {
+  try {
+    const shared = readJson(RG_KEY);
+    if (shared !== null) return isRgState(shared) ? shared : null;
+    const legacy = readJson(KEY) ?? readJson(LEGACY_WALLET_KEY);
+    return isObject(legacy) && isRgState(legacy.responsible)
+      ? legacy.responsible
+      : null;
+  } catch {
+    return null;
+  }
 }
 
-export function saveWallet(data: PersistedWallet): void {
+export function saveFairState(state: FairState): void {
   try {
-    localStorage.setItem(KEY, JSON.stringify(data));
+    localStorage.setItem(FAIR_KEY, JSON.stringify(state));
   } catch {
     // ignore storage errors (private browsing / quota)
   }
 }
 
-export function loadWallet(): PersistedWallet | null {
+export function loadFairState(): FairState | null {
   try {
-    const raw = localStorage.getItem(KEY);
-    if (!raw) return null;
-    const parsed = JSON.parse(raw) as unknown;
-    // narrow shape
+    const parsed = readJson(FAIR_KEY) as Partial<FairState> | null;
     if (
       parsed &&
-      typeof parsed === "object" &&
-      typeof (parsed as any).balanceCents === "number"
+      typeof parsed.serverSeed === "string" &&
+      typeof parsed.clientSeed === "string" &&
+      typeof parsed.nonce === "number"
     ) {
-      return { balanceCents: (parsed as any).balanceCents };
+      return {
+        serverSeed: parsed.serverSeed,
+        clientSeed: parsed.clientSeed,
+        nonce: parsed.nonce,
+        revealed: Array.isArray(parsed.revealed) ? parsed.revealed : [],
+      };
     }
     return null;
   } catch {
@@ -1,21 +1,96 @@
-export type SymbolId = "CHERRY" | "LEMON" | "STAR" | "SEVEN" | "FS"; // FS = Free Spins (scatter)
+/** Symbol ids come from the game config (e.g. "CHERRY", "FS"). */
+export type SymbolId = string;
+
+/** regular = pays on lines; scatter = counts anywhere (scatter pays, free spins); wild = substitutes on lines. */
+export type SymbolRole = "regular" | "scatter" | "wild";
+
+/** Payout per symbol depends on run length (3, 4, 5 in a row). */
+export type RunPayout = { 3: number; 4: number; 5: number };
 
 export interface SymbolDef {
   id: SymbolId;
-  emoji: string;
+  emoji: string; // display glyph (fallback text when an image is set)
+  image?: string; // optional image URL shown instead of the glyph
+  name?: string; // read out by screen readers (default: the id in lower case)
+  color: string; // win-line colour
   weight: number;
+  role: SymbolRole;
+  pays?: RunPayout; // multipliers of the bet; required for regular symbols
 }
 
-/** Payout per symbol depends on run length (3, 4, 5 in a row). */
-export type RunPayout = { 3: number; 4: number; 5: number };
+/** A numbered payline: the row index it crosses on each reel, starting at reel 0. */
+export interface Payline {
+  id: string;
+  rows: number[]; // 3..reels entries
+}
+
+/** ltr = pays from the leftmost reel, rtl = from the rightmost, both = either. */
+export type PayDirection = "ltr" | "rtl" | "both";
 
-export type PayoutTable = Record<SymbolId, RunPayout>;
+/** lines = paylines; ways = any matching symbol on adjacent reels. */
+export type EvaluationMode = "lines" | "ways";
+
+/** Physical reel strips: one ordered symbol list per reel, read top to bottom and wrapping. */
+export interface ReelStrips {
+  base: SymbolId[][];
+  bonus?: SymbolId[][]; // strips for free spins (default: base)
+}
 
 export interface SlotConfig {
+  name?: string;
   reels: number; // columns (5)
   rows: number; // rows (5)
   symbols: SymbolDef[];
-  payoutTable: PayoutTable;
+  maxScattersPerReel?: number; // scatters re-rolled beyond this per column (default 1)
+  paylines?: Payline[]; // default: every row plus each 3+-long diagonal from reel 0
+  payDirection?: PayDirection; // default "ltr"
+  evaluation?: EvaluationMode; // default "lines"
+  reelStrips?: ReelStrips; // when set, grids come from random strip stops instead of weighted cells
+  gamble?: GambleRules; // double-up after base wins (default DEFAULT_GAMBLE_RULES)
+  jackpots?: JackpotPool[]; // progressive pools (default DEFAULT_JACKPOTS, [] = none)
+  ante?: AnteRules; // optional higher stake for more scatters (default DEFAULT_ANTE)
+  bonusBuy?: BonusBuyOption[]; // free-spin packages for sale (default DEFAULT_BONUS_BUY, [] = none)
+  cascade?: CascadeRules; // base-game wins tumble out and the grid refills (off when absent)
+  currency?: CurrencyConfig; // money the game is played in (default DEFAULT_CURRENCY, euro)
+  winTiers?: WinTier[]; // celebrated win sizes, ascending (default DEFAULT_WIN_TIERS, [] = none)
+  scatter?: ScatterRules; // scatter pays, free-spin triggers and retriggers (default DEFAULT_SCATTER_RULES)
+}
+
+/**
+ * Values by scatter count, keyed by the smallest count that earns them. A
+ * count between keys gets the entry of the highest key it reaches, so
+ * { 3: 5, 4: 8, 5: 10 } gives 10 for six scatters and nothing for two.
+ */
+export type ScatterTable = Record<number, number>;
+
+/** What scatters landing anywhere on the grid are worth, in the base game and in free spins. */
+export interface ScatterRules {
+  pays?: ScatterTable; // multipliers of the total bet, base game and free spins (default none)
+  triggers: ScatterTable; // free spins awarded by a base spin
+  retriggers: ScatterTable; // extra free spins awarded by a free spin
+  maxTotalFreeSpins?: number; // retriggers stop adding spins at this session total (default no cap)
+  onWilds?: boolean; // free spins: scatters may land on wild cells and count there (default false)
+}
+
+/** A celebrated win size: wins of at least `minX` times the bet count up full-screen. */
+export interface WinTier {
+  name: string; // "Big", "Mega", "Epic"
+  minX: number;
+  countUpMs?: number; // length of the count-up (default 3000)
+}
+
+/**
+ * The currency a game is played in. Every *Cents amount in the engine is an
+ * integer in this currency's minor unit (cents for EUR, yen for JPY).
+ */
+export interface CurrencyConfig {
+  code: string; // ISO 4217, e.g. "EUR", "JPY"
+  minorUnits: number; // decimal digits of the minor unit (2 for EUR, 0 for JPY)
+  betLadder: number[]; // allowed bets, ascending
+  defaultBetCents: number; // one of betLadder
+  startingBalanceCents: number; // balance of a new wallet
+  depositCents: number; // what the "add funds" button deposits
+  denominations: number[]; // credit values offered for the credits display
 }
 
 export interface Wallet {
@@ -23,30 +98,207 @@ export interface Wallet {
   betCents: number;
 }
 
-/** Win segment coordinates (horizontal or diagonal), inclusive. */
+/** One paying line (or ways win). Start/end are the first and last matched cells in pay order. */
 export interface LineWin {
   startRow: number;
   startCol: number;
   endRow: number;
   endCol: number;
-  length: 3 | 4 | 5;
+  length: 3 | 4 | 5; // reels covered
   symbol: SymbolId; // base symbol (not wild)
   winCents: number;
+  paylineId: string; // payline id, or "ways" in ways evaluation
+  direction: "ltr" | "rtl";
+  cells: Array<[number, number]>; // every matched [row, col], in pay order
+  ways?: number; // ways evaluation: number of matching combinations
+  wildMultiplier?: number; // lines: product of the bonus wild multipliers on the line, when above 1
+}
+
+/** A scatter pay: `count` scatters anywhere on the grid, paid on the total bet. */
+export interface ScatterWin {
+  symbol: SymbolId; // the first scatter counted (games rarely have more than one)
+  count: number;
+  cells: Array<[number, number]>; // every counted scatter, row by row
+  winCents: number;
 }
 
 export interface SpinResult {
   grid: SymbolId[][]; // [row][col], rows x reels
-  totalWinCents: number;
+  stakeCents: number; // charged for the spin: the bet plus any ante
+  ante: boolean; // played with the ante bet (boosted scatter weights)
+  totalWinCents: number; // line and scatter wins
   lineWins: LineWin[];
-  isJackpot: boolean; // true if any 5-of-a-kind SEVEN from leftmost
-  freeSpinsAwarded: number; // 0 or 5/8/10 based on FS scatters in base game
+  scatterWins: ScatterWin[]; // paid once per spin, after any cascade on the last grid
+  isJackpot: boolean; // true if any 5-of-a-kind of the top-paying symbol from leftmost
+  jackpotWins: JackpotWin[]; // progressive pools won this spin, paid on top of totalWinCents
+  freeSpinsAwarded: number; // from the scatter trigger table (0 = none)
+  scatterCount: number; // scatter symbols anywhere on the grid
+  stops?: number[]; // reel-strip mode: strip index shown in the top row of each reel
+  cascade?: CascadeStep[]; // cascading games: every step, starting with `grid`
+  gamble?: GambleStep[]; // one entry per gamble step taken on this win, in order
+}
+
+/** A generated grid and, in reel-strip mode, the stop index of each reel. */
+export interface GridDraw {
+  grid: SymbolId[][];
+  stops?: number[];
 }
 
 /** Bonus evaluation (used internally by main.ts when scoring free spins with wilds). */
 export interface ScoredGrid {
   totalWinCents: number;
   lineWins: LineWin[];
+  scatterWins: ScatterWin[];
   isJackpot: boolean;
-  /** When scoring in bonus mode, 3+ FS bells award extra spins (e.g., 2). */
+  /** When scoring in bonus mode, extra spins from the scatter retrigger table (before any cap). */
   bonusRetriggerSpins?: number;
 }
+
+/** Tunables for how wilds spawn and grow during free spins. */
+export interface WildRules {
+  spawnChance: number; // chance a bonus spin spawns any new wilds (0..1)
+  extraWildChance: number; // chance a spawning spin adds a second wild (0..1)
+  maxNewPerSpin: number; // hard cap on new wilds per spin
+  multiplierCap: number; // max multiplier a single wild can grow to
+}
+
+/** One free spin as resolved by BonusSession, in the order the UI should present it. */
+export interface BonusSpinResult {
+  spinNumber: number; // 1-based index of this spin
+  totalSpins: number; // total spins in the session after any retrigger
+  bumpedWilds: Array<[number, number]>; // wilds that grew (+1x) from last spin's wins
+  newWilds: Array<[number, number]>; // brand-new x1 wilds spawned this spin
+  wilds: number[][]; // wild multipliers after bump + spawn ([row][col], 0 = none)
+  grid: SymbolId[][];
+  stops?: number[]; // reel-strip mode: bonus strip stop per reel
+  lineWins: LineWin[];
+  scatterWins: ScatterWin[];
+  winCents: number; // line and scatter wins
+  retriggerSpins: number; // spins actually added, after maxTotalFreeSpins
+  bonusTotalCents: number; // running total including this spin
+}
+
+/** Hooks SlotMachine calls around money movements; throwing from a before* hook blocks the action. */
+export interface WalletGuard {
+  beforeDeposit(cents: number): void;
+  afterDeposit(cents: number): void;
+  beforeSpin(betCents: number): void;
+  afterSpin(betCents: number, winCents: number): void;
+  afterWinnings(cents: number): void; // bonus payouts or settled gambles (negative if a gamble lost)
+}
+
+/** An exact free spin for QA: the wilds layout replaces growth and spawning, then `grid` lands. */
+export interface ForcedBonusSpin {
+  grid: SymbolId[][];
+  wilds: number[][]; // multipliers, [row][col], 0 = none
+}
+
+/** Debug hook SlotMachine asks before drawing; null means draw as normal (see scenario.ts). */
+export interface ForcedOutcomes {
+  nextGrid(): SymbolId[][] | null;
+  nextBonusSpin(): ForcedBonusSpin | null;
+}
+
+/** Line: 5 of a kind of `symbol` (default the top-paying symbol). Random: `chance` per qualifying spin. */
+export type JackpotTrigger =
+  | { type: "line"; symbol?: SymbolId }
+  | { type: "random"; chance: number };
+
+/** A progressive pool fed by a share of every base-game bet. */
+export interface JackpotPool {
+  id: string; // e.g. "grand"
+  name: string; // shown on the meter
+  seedCents: number; // starting value, and the value after each win
+  contribution: number; // share of each bet added to the pool (0..1)
+  minBetCents?: number; // smaller bets still contribute but cannot win it
+  trigger: JackpotTrigger;
+}
+
+export interface JackpotWin {
+  poolId: string;
+  name: string;
+  winCents: number;
+}
+
+/**
+ * Cascading (tumbling) reels: cells of every base-game win are removed, the
+ * symbols above drop down, new ones fill from the top and the grid is scored
+ * again, until a grid has no wins.
+ */
+export interface CascadeRules {
+  multipliers: number[]; // win multiplier for step 1, 2, ...; the last value repeats
+  maxSteps?: number; // safety cap on steps per spin (default 50)
+}
+
+/** One grid of a cascading spin: its wins, then the cells that tumble out. */
+export interface CascadeStep {
+  grid: SymbolId[][];
+  multiplier: number;
+  lineWins: LineWin[]; // winCents include the multiplier
+  winCents: number;
+  removed: Array<[number, number]>; // cleared before the next step; empty on the last
+}
+
+/** Ante bet: a higher stake in exchange for heavier scatters in base-game weighted grids. */
+export interface AnteRules {
+  stakeIncrease: number; // extra share of the bet charged per spin (0.25 = +25%)
+  scatterWeightMultiplier: number; // scatter weights are multiplied by this while the ante is on
+}
+
+/** A bonus-buy package: `spins` free spins for `costX` times the bet. */
+export interface BonusBuyOption {
+  spins: number;
+  costX: number;
+}
+
+/** How a round was entered: a plain spin, a spin with the ante bet, or a bought bonus. */
+export type RoundMode =
+  | { type: "spin" }
+  | { type: "ante" }
+  | { type: "buy"; spins: number };
+
+/** Limits on the double-up after a base-game win. */
+export interface GambleRules {
+  maxSteps: number; // gambles allowed on one win (0 disables the feature)
+  maxStakeCents: number; // no further gamble once the amount at risk is above this
+}
+
+export type CardSuit = "hearts" | "diamonds" | "clubs" | "spades";
+export type CardColor = "red" | "black";
+/** Red/black pays x2, an exact suit pays x4. */
+export type GambleGuess = CardColor | CardSuit;
+
+/** One double-up: the stake, the guess, the card drawn and what it left the player with. */
+export interface GambleStep {
+  step: number; // 1-based
+  guess: GambleGuess;
+  suit: CardSuit; // card drawn
+  stakeCents: number;
+  won: boolean;
+  resultCents: number; // stake x2 / x4 on a win, 0 on a loss
+}
+
+/** An uncollected gamble: the win already in the wallet and what it stands at now. */
+export interface GambleSnapshot {
+  initialCents: number; // the spin's win, credited before the gamble
+  stakeCents: number; // what collecting now would pay
+  steps: GambleStep[];
+}
+
+/** Everything needed to continue a free-spins session after a reload. */
+export interface BonusSnapshot {
+  betCents: number;
+  wilds: number[][]; // [row][col] multipliers, 0 = none
+  winMask: boolean[][] | null; // last spin's winning cells; their wilds grow next spin
+  spinsPlayed: number;
+  spinsRemaining: number;
+  bonusTotalCents: number; // won so far, not yet credited
+}
+
+/** A base spin plus every free spin it led to, played headlessly (see playRound). */
+export interface PlayedRound {
+  result: SpinResult | null; // null when the bonus was bought
+  bonusSpins: BonusSpinResult[];
+  bonusTotalCents: number;
+  totalWinCents: number; // base win + jackpots + bonus total
+}
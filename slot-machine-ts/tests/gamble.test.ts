@@ -0,0 +1,64 @@
+// tests/gamble.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SlotMachine, DEFAULT_CONFIG } from "../src/slotmachine";
+import { createMulberry32 } from "../src/rng";
+import type { SpinResult } from "../src/types";
+
+/** Spin until a plain base win (no free spins, no jackpot) comes up. */
+function winningSpin(machine: SlotMachine): SpinResult {
+  for (;;) {
+    const result = machine.spin();
+    if (
+      result.totalWinCents > 0 &&
+      result.freeSpinsAwarded === 0 &&
+      result.jackpotWins.length === 0
+    )
+      return result;
+  }
+}
+
+function newMachine(): SlotMachine {
+  return new SlotMachine(
+    { ...DEFAULT_CONFIG, jackpots: [] },
+    { balanceCents: 100000, betCents: 100 },
+    createMulberry32(5)
+  );
+}
+
+test("the balance stays the same until the gamble is collected", () => {
+  const machine = newMachine();
+  const result = winningSpin(machine);
+  const withWin = machine.getWallet().balanceCents;
+  const gamble = machine.startGamble(result);
+
+  while (gamble.canGamble) gamble.play("red");
+  assert.ok(gamble.stepsPlayed > 0);
+  assert.equal(machine.getWallet().balanceCents, withWin);
+
+  const finalCents = gamble.collect();
+  assert.equal(
+    machine.getWallet().balanceCents,
+    withWin - result.totalWinCents + finalCents
+  );
+});
+
+test("a saved gamble settles at the stake it had reached", () => {
+  const machine = newMachine();
+  const result = winningSpin(machine);
+  const withWin = machine.getWallet().balanceCents;
+  const gamble = machine.startGamble(result);
+  gamble.play("red");
+
+  const saved = gamble.snapshot();
+  assert.equal(saved.initialCents, result.totalWinCents);
+  assert.equal(saved.stakeCents, gamble.stakeCents);
+  assert.deepEqual(saved.steps, result.gamble);
+
+  machine.settleGamble(saved.initialCents, saved.stakeCents);
+  assert.equal(
+    machine.getWallet().balanceCents,
+    withWin - result.totalWinCents + saved.stakeCents
+  );
+});
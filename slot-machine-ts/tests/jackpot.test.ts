@@ -0,0 +1,43 @@
+// tests/jackpot.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SlotMachine, DEFAULT_CONFIG } from "../src/slotmachine";
+import { CLASSIC_CONFIG } from "../src/games";
+import { createMulberry32 } from "../src/rng";
+import type { JackpotState } from "../src/jackpot";
+
+/** Load a game on the shared euro save, play a few spins and save it again. */
+function play(
+  config: typeof DEFAULT_CONFIG,
+  saved: JackpotState | null
+): JackpotState {
+  const machine = new SlotMachine(
+    config,
+    { balanceCents: 100000, betCents: 100 },
+    createMulberry32(3)
+  );
+  if (saved) machine.getJackpots().restore(saved);
+  for (let i = 0; i < 20; i++) machine.spin();
+  return machine.getJackpots().getState(saved);
+}
+
+test("playing Classic keeps the 5x5 game's Grand in the shared save", () => {
+  const grand = 250000;
+  const fromFiveByFive: JackpotState = {
+    ...play(DEFAULT_CONFIG, null),
+    grand,
+  };
+  const afterClassic = play(CLASSIC_CONFIG, fromFiveByFive);
+  assert.equal(afterClassic.grand, grand);
+
+  const back = new SlotMachine(
+    DEFAULT_CONFIG,
+    { balanceCents: 100000, betCents: 100 },
+    createMulberry32(4)
+  );
+  back.getJackpots().restore(afterClassic);
+  assert.equal(back.getJackpots().valueCents("grand"), grand);
+  // Classic's spins still fed the pools both games run
+  assert.ok(afterClassic.mini > fromFiveByFive.mini);
+});
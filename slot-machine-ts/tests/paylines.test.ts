@@ -0,0 +1,60 @@
+// tests/paylines.test.ts
+//
+// Both-ways pays on grids wider than the 5-cell run cap.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SlotMachine, DEFAULT_SYMBOLS } from "../src/slotmachine";
+import type { EvaluationMode, SlotConfig, SymbolId } from "../src/types";
+
+function wideMachine(evaluation: EvaluationMode): SlotMachine {
+  const config: SlotConfig = {
+    reels: 6,
+    rows: 3,
+    symbols: DEFAULT_SYMBOLS,
+    payDirection: "both",
+    evaluation,
+    paylines: [{ id: "1", rows: [1, 1, 1, 1, 1, 1] }],
+  };
+  return new SlotMachine(config, { balanceCents: 10000, betCents: 100 });
+}
+
+/** Only the middle row holds cherries; the outer rows alternate lemon and star. */
+function gridWithMiddle(middle: SymbolId[]): SymbolId[][] {
+  return [
+    ["LEMON", "STAR", "LEMON", "STAR", "LEMON", "STAR"],
+    middle,
+    ["STAR", "LEMON", "STAR", "LEMON", "STAR", "LEMON"],
+  ];
+}
+
+test("a full six-reel line pays once in both-ways mode", () => {
+  const scored = wideMachine("lines").scoreGrid(
+    gridWithMiddle(Array<SymbolId>(6).fill("CHERRY")),
+    100
+  );
+  assert.equal(scored.lineWins.length, 1);
+  assert.equal(scored.lineWins[0].direction, "ltr");
+  assert.equal(scored.lineWins[0].length, 5);
+});
+
+test("a five-run from the right still pays when the left reel breaks it", () => {
+  const scored = wideMachine("lines").scoreGrid(
+    gridWithMiddle(["SEVEN", "CHERRY", "CHERRY", "CHERRY", "CHERRY", "CHERRY"]),
+    100
+  );
+  assert.deepEqual(
+    scored.lineWins.map((w) => [w.direction, w.symbol, w.length]),
+    [["rtl", "CHERRY", 5]]
+  );
+});
+
+test("ways on six reels pay the same symbol once in both-ways mode", () => {
+  const scored = wideMachine("ways").scoreGrid(
+    gridWithMiddle(Array<SymbolId>(6).fill("CHERRY")),
+    100
+  );
+  const cherries = scored.lineWins.filter((w) => w.symbol === "CHERRY");
+  assert.equal(cherries.length, 1);
+  assert.equal(cherries[0].direction, "ltr");
+});
@@ -0,0 +1,35 @@
+// tests/simulator.test.ts
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { simulate, mergeStats, summarize } from "../src/simulator";
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_ANTE,
+  DEFAULT_SCATTER_RULES,
+} from "../src/slotmachine";
+
+test("ante runs are funded for their higher stake", () => {
+  for (const spins of [1, 2, 3, 50]) {
+    const stats = simulate(DEFAULT_CONFIG, { spins, seed: 1, ante: true });
+    assert.equal(stats.spins, spins);
+    assert.equal(
+      stats.totalBetCents,
+      spins * Math.round(100 * (1 + DEFAULT_ANTE.stakeIncrease))
+    );
+  }
+});
+
+test("trigger counts follow the configured scatter table", () => {
+  const config = {
+    ...DEFAULT_CONFIG,
+    scatter: { ...DEFAULT_SCATTER_RULES, triggers: { 2: 3 } },
+  };
+  const stats = simulate(config, { spins: 500, seed: 2 });
+  const counted = Object.values(stats.triggers).reduce((a, b) => a + b, 0);
+  assert.ok(stats.triggers[2] > 0);
+  assert.equal(counted, stats.bonusSessions);
+
+  const rates = summarize(mergeStats(stats, stats)).triggerRate;
+  assert.equal(rates.byCount[2], stats.triggers[2] / stats.spins);
+});
@@ -0,0 +1,154 @@
+// tests/storage.test.ts
+//
+// Saves across reloads, with an in-memory localStorage standing in for the browser's.
+
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  SAVE_VERSION,
+  DEFAULT_SETTINGS,
+  bonusToSave,
+  migrateSave,
+  loadGame,
+  saveGame,
+  loadResponsible,
+  saveResponsible,
+  type SaveGame,
+} from "../src/storage";
+import { ResponsibleGaming } from "../src/responsible";
+import { SlotMachine, DEFAULT_CONFIG } from "../src/slotmachine";
+import { createMulberry32 } from "../src/rng";
+import { startBoughtRound } from "../src/history";
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear(),
+    key: (i: number) => [...items.keys()][i] ?? null,
+    get length() {
+      return items.size;
+    },
+  };
+});
+
+/** A save left mid-bonus: three of ten bought free spins played. */
+function saveMidBonus(): SaveGame {
+  const machine = new SlotMachine(
+    DEFAULT_CONFIG,
+    { balanceCents: 100000, betCents: 100 },
+    createMulberry32(9)
+  );
+  const before = machine.getWallet();
+  const session = machine.buyBonus(10);
+  const round = startBoughtRound(
+    "default",
+    10,
+    before.balanceCents - machine.getWallet().balanceCents,
+    before,
+    machine.getWallet(),
+    0
+  );
+  for (let i = 0; i < 3; i++) session.nextSpin();
+  const save: SaveGame = {
+    version: SAVE_VERSION,
+    currency: "EUR",
+    balanceCents: machine.getWallet().balanceCents,
+    betCents: 100,
+    settings: DEFAULT_SETTINGS,
+    bonus: { session: session.snapshot(), round, draws: 0 },
+    gamble: null,
+    jackpots: null,
+    stats: null,
+  };
+  saveGame(save);
+  return save;
+}
+
+/** What the game saves on startup before the player answers the resume card. */
+function reloadWithoutChoosing(): void {
+  const loaded = loadGame("EUR");
+  assert.ok(loaded);
+  saveGame({ ...loaded, bonus: bonusToSave(null, loaded.bonus) });
+}
+
+test("an unanswered bonus survives two reloads", () => {
+  const saved = saveMidBonus();
+  reloadWithoutChoosing();
+  reloadWithoutChoosing();
+
+  const bonus = loadGame("EUR")?.bonus;
+  // as written by the first save (JSON drops undefined fields)
+  assert.deepEqual(bonus, JSON.parse(JSON.stringify(saved.bonus)));
+  assert.equal(bonus?.session.spinsPlayed, 3);
+  assert.equal(bonus?.session.spinsRemaining, 7);
+});
+
+test("the bonus being played replaces the one waiting", () => {
+  const saved = saveMidBonus().bonus!;
+  const playing = {
+    ...saved,
+    session: { ...saved.session, spinsPlayed: 4, spinsRemaining: 6 },
+  };
+  assert.equal(bonusToSave(playing, saved), playing);
+  assert.equal(bonusToSave(null, null), null);
+});
+
+test("responsible-gaming limits and blocks follow the player into every currency", () => {
+  const rg = new ResponsibleGaming();
+  rg.block(7 * 24 * 60 * 60 * 1000, "exclusion");
+  saveResponsible(rg.getState());
+  saveGame({ ...saveMidBonus(), currency: "JPY", bonus: null });
+
+  const inJpy = new ResponsibleGaming(loadResponsible());
+  assert.equal(inJpy.getState().blockReason, "exclusion");
+  assert.throws(() => inJpy.beforeSpin(100));
+});
+
+test("state from a save that still kept it per currency is picked up", () => {
+  const rg = new ResponsibleGaming();
+  rg.block(60 * 60 * 1000, "cooldown");
+  localStorage.setItem(
+    "ts-slots-save",
+    JSON.stringify({
+      ...saveMidBonus(),
+      version: 7,
+      responsible: rg.getState(),
+    })
+  );
+
+  assert.equal(loadResponsible()?.blockReason, "cooldown");
+  assert.equal(loadGame("EUR")?.version, SAVE_VERSION);
+});
+
+test("a v1 wallet is upgraded, one without a balance is rejected", () => {
+  const upgraded = migrateSave({ balanceCents: 4200 });
+  assert.equal(upgraded?.version, SAVE_VERSION);
+  assert.equal(upgraded?.balanceCents, 4200);
+  assert.deepEqual(upgraded?.settings, DEFAULT_SETTINGS);
+
+  assert.equal(migrateSave({ balanceCents: "4200" }), null);
+  assert.equal(migrateSave({ version: 3, betCents: 100 }), null);
+  assert.equal(migrateSave({ version: SAVE_VERSION + 1 }), null);
+});
+
+test("malformed parts of a save fall back instead of reaching the game", () => {
+  const save = migrateSave({
+    ...saveMidBonus(),
+    settings: { ante: "yes", sound: { master: 7 }, autoplay: { rounds: -1 } },
+    bonus: { session: { spinsRemaining: "many" }, round: {}, draws: 0 },
+    gamble: { state: { initialCents: 100 }, round: null },
+    jackpots: { grand: "lots" },
+    stats: { history: [] },
+  });
+  assert.ok(save);
+  assert.equal(save.settings.ante, false);
+  assert.equal(save.settings.sound.master, DEFAULT_SETTINGS.sound.master);
+  assert.equal(save.settings.autoplay.rounds, DEFAULT_SETTINGS.autoplay.rounds);
+  assert.equal(save.bonus, null);
+  assert.equal(save.gamble, null);
+  assert.equal(save.jackpots, null);
+  assert.equal(save.stats, null);
+});